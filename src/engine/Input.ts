@@ -9,6 +9,9 @@ export enum Keys {
   Shift = 'ShiftLeft',
   E = 'KeyE',
   F = 'KeyF',
+  P = 'KeyP',
+  Minus = 'Minus',
+  Equal = 'Equal',
   Escape = 'Escape',
   ArrowUp = 'ArrowUp',
   ArrowDown = 'ArrowDown',
@@ -31,8 +34,9 @@ export class Input {
   }
   
   private setupEventListeners(canvas: HTMLCanvasElement): void {
-    // Keyboard events
+    // Keyboard events (ignored while typing in a text field)
     window.addEventListener('keydown', (e) => {
+      if (this.isTextInput(e.target)) return;
       this.keys.set(e.code, true);
       // Only prevent default for game keys
       if (e.code.startsWith('Arrow') || e.code.startsWith('Key') || e.code === 'Space' || e.code.startsWith('Digit')) {
@@ -42,6 +46,7 @@ export class Input {
     
     window.addEventListener('keyup', (e) => {
       this.keys.set(e.code, false);
+      if (this.isTextInput(e.target)) return;
       // Only prevent default for game keys
       if (e.code.startsWith('Arrow') || e.code.startsWith('Key') || e.code === 'Space' || e.code.startsWith('Digit')) {
         e.preventDefault();
@@ -77,6 +82,10 @@ export class Input {
     });
   }
   
+  private isTextInput(target: EventTarget | null): boolean {
+    return target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+  }
+  
   public update(): void {
     // Update previous state
     this.previousKeys = new Map(this.keys);
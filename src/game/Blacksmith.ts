@@ -1,3 +1,5 @@
+import { itemRegistry } from './ItemRegistry';
+
 export interface BlacksmithItem {
   id: string;
   name: string;
@@ -6,6 +8,12 @@ export interface BlacksmithItem {
   quantity?: number;
 }
 
+// Item ids the forge deals in, in menu order
+const BLACKSMITH_STOCK = ['wood', 'iron_ingot', 'gold_ingot'];
+
+// Coins to restore one worn tool to full durability
+const REPAIR_PRICE = 20;
+
 export class Blacksmith {
   private items: BlacksmithItem[] = [];
   private isOpen: boolean = false;
@@ -15,29 +23,20 @@ export class Blacksmith {
   }
   
   private initializeBlacksmithItems(): void {
-    this.items = [
-      {
-        id: 'wood',
-        name: 'Wood',
-        buyPrice: 0, // We don't buy wood
-        sellPrice: 5, // Sell wood for 5 coins
-        quantity: 0
-      },
-      {
-        id: 'iron_ingot',
-        name: 'Iron Ingot',
-        buyPrice: 25,
-        sellPrice: 0, // Can't sell ingots back
-        quantity: -1 // Infinite
-      },
-      {
-        id: 'gold_ingot',
-        name: 'Gold Ingot',
-        buyPrice: 100,
-        sellPrice: 0, // Can't sell ingots back
-        quantity: -1 // Infinite
-      }
-    ];
+    this.items = [];
+    
+    for (const itemId of BLACKSMITH_STOCK) {
+      const definition = itemRegistry.get(itemId);
+      if (!definition) continue;
+      
+      this.items.push({
+        id: definition.id,
+        name: definition.name,
+        buyPrice: definition.buyPrice ?? 0, // 0 when the blacksmith only buys it, like wood
+        sellPrice: definition.sellPrice ?? 0, // 0 when it can't be sold back, like ingots
+        quantity: definition.buyPrice !== undefined ? -1 : 0 // Infinite, or only bought from the player
+      });
+    }
   }
   
   public open(): void {
@@ -56,27 +55,35 @@ export class Blacksmith {
     return this.items;
   }
   
+  public getItem(itemId: string): BlacksmithItem | undefined {
+    return this.items.find(i => i.id === itemId);
+  }
+  
   public canBuyItem(itemId: string, playerMoney: number): boolean {
-    const item = this.items.find(i => i.id === itemId);
+    const item = this.getItem(itemId);
     if (!item) return false;
     
-    // Can't buy wood from blacksmith
-    if (itemId === 'wood') return false;
+    // Can't buy what the blacksmith only takes in, like wood
+    if (item.quantity === 0) return false;
     
     return playerMoney >= item.buyPrice;
   }
   
   public buyItem(itemId: string): number {
-    const item = this.items.find(i => i.id === itemId);
-    if (!item || itemId === 'wood') return 0;
+    const item = this.getItem(itemId);
+    if (!item || item.quantity === 0) return 0;
     
     return item.buyPrice;
   }
   
   public sellItem(itemId: string, quantity: number = 1): number {
-    const item = this.items.find(i => i.id === itemId);
+    const item = this.getItem(itemId);
     if (!item) return 0;
     
     return item.sellPrice * quantity;
   }
+  
+  public getRepairPrice(toolCount: number): number {
+    return REPAIR_PRICE * toolCount;
+  }
 }
\ No newline at end of file
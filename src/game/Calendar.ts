@@ -0,0 +1,119 @@
+import { GameClock } from './GameClock';
+
+export enum Season {
+  Spring = 0,
+  Summer = 1,
+  Fall = 2,
+  Winter = 3,
+}
+
+export const SEASON_NAMES = ['Spring', 'Summer', 'Fall', 'Winter'];
+
+export interface AmbientTint {
+  r: number;
+  g: number;
+  b: number;
+  a: number;
+}
+
+export class Calendar {
+  public static readonly DAY_LENGTH = 420000; // Game milliseconds per in-game day (7 minutes at 1x)
+  public static readonly DAYS_PER_SEASON = 28;
+  public static readonly SEASONS_PER_YEAR = 4;
+  public static readonly START_HOUR = 6; // Clock time 0 is 6 AM on the first day
+  
+  private clock: GameClock;
+  private lastDayIndex: number;
+  
+  constructor(clock: GameClock) {
+    this.clock = clock;
+    this.lastDayIndex = this.getDayIndex();
+  }
+  
+  // Returns how many in-game days started since the last call
+  public update(): number {
+    const dayIndex = this.getDayIndex();
+    const daysElapsed = Math.max(0, dayIndex - this.lastDayIndex);
+    this.lastDayIndex = dayIndex;
+    return daysElapsed;
+  }
+  
+  // Re-anchors day tracking after the clock jumps (e.g. loading a save)
+  public resync(): void {
+    this.lastDayIndex = this.getDayIndex();
+  }
+  
+  // Days since the world began, starting at 0
+  public getDayIndex(time: number = this.clock.now()): number {
+    const startOffset = (Calendar.START_HOUR / 24) * Calendar.DAY_LENGTH;
+    return Math.floor((time + startOffset) / Calendar.DAY_LENGTH);
+  }
+  
+  // Clock time at which the day after the given time begins
+  public getNextDayStart(time: number = this.clock.now()): number {
+    const startOffset = (Calendar.START_HOUR / 24) * Calendar.DAY_LENGTH;
+    return (this.getDayIndex(time) + 1) * Calendar.DAY_LENGTH - startOffset;
+  }
+  
+  public getDayOfSeason(): number {
+    return (this.getDayIndex() % Calendar.DAYS_PER_SEASON) + 1;
+  }
+  
+  public getSeason(time: number = this.clock.now()): Season {
+    const seasonIndex = Math.floor(this.getDayIndex(time) / Calendar.DAYS_PER_SEASON);
+    return (seasonIndex % Calendar.SEASONS_PER_YEAR) as Season;
+  }
+  
+  public getYear(): number {
+    const daysPerYear = Calendar.DAYS_PER_SEASON * Calendar.SEASONS_PER_YEAR;
+    return Math.floor(this.getDayIndex() / daysPerYear) + 1;
+  }
+  
+  // Hours since midnight, 0-24
+  public getTimeOfDay(): number {
+    const startOffset = (Calendar.START_HOUR / 24) * Calendar.DAY_LENGTH;
+    const msIntoDay = (this.clock.now() + startOffset) % Calendar.DAY_LENGTH;
+    return (msIntoDay / Calendar.DAY_LENGTH) * 24;
+  }
+  
+  public formatDate(): string {
+    return `${SEASON_NAMES[this.getSeason()]} ${this.getDayOfSeason()}, Year ${this.getYear()}`;
+  }
+  
+  public formatTime(): string {
+    const hours = this.getTimeOfDay();
+    const hour = Math.floor(hours);
+    // Show time in 10 minute increments
+    const minutes = Math.floor(((hours - hour) * 60) / 10) * 10;
+    const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+    const suffix = hour < 12 ? 'AM' : 'PM';
+    return `${displayHour}:${minutes.toString().padStart(2, '0')} ${suffix}`;
+  }
+  
+  // Color overlay for the current time of day (alpha 0 during full daylight)
+  public getAmbientTint(): AmbientTint {
+    const hours = this.getTimeOfDay();
+    
+    // Night: deep blue
+    const night = { r: 0.05, g: 0.08, b: 0.25, a: 0.55 };
+    // Dawn/dusk: warm orange
+    const twilight = { r: 0.9, g: 0.45, b: 0.2, a: 0.2 };
+    const day = { r: 1, g: 1, b: 1, a: 0 };
+    
+    if (hours < 5 || hours >= 21) return night;
+    if (hours < 7) return this.lerpTint(night, twilight, (hours - 5) / 2);
+    if (hours < 8) return this.lerpTint(twilight, day, hours - 7);
+    if (hours < 18) return day;
+    if (hours < 19) return this.lerpTint(day, twilight, hours - 18);
+    return this.lerpTint(twilight, night, (hours - 19) / 2);
+  }
+  
+  private lerpTint(from: AmbientTint, to: AmbientTint, t: number): AmbientTint {
+    return {
+      r: from.r + (to.r - from.r) * t,
+      g: from.g + (to.g - from.g) * t,
+      b: from.b + (to.b - from.b) * t,
+      a: from.a + (to.a - from.a) * t,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,91 @@
+import { Tile } from './TileMap';
+import { ItemSaveData, restoreItem, toItemSaveData } from './InventorySystem';
+
+// A chest slot as saved, holding only its item's own state
+export interface ChestSlotSaveData {
+  item: ItemSaveData | null;
+  row: number;
+  col: number;
+}
+
+export interface TileSaveData extends Omit<Tile, 'chest'> {
+  chest?: ChestSlotSaveData[][];
+}
+
+export interface ChunkSaveData {
+  chunkX: number;
+  chunkY: number;
+  tiles: TileSaveData[][];
+  lastSimulated: number; // Game clock time the chunk was last brought up to date
+  lastDay: number; // TileMap day count at that time, for overnight growth missed while unloaded
+}
+
+// A square block of tiles that is generated, loaded and unloaded as a unit
+export class Chunk {
+  public static readonly SIZE = 16; // Tiles per side
+  
+  public readonly chunkX: number;
+  public readonly chunkY: number;
+  public tiles: Tile[][];
+  // Set once anything in the chunk differs from what the seed generates. Only modified
+  // chunks need simulating (generated terrain has nothing that grows or times out)
+  // and only they are kept when the chunk is unloaded.
+  public modified: boolean = false;
+  
+  constructor(chunkX: number, chunkY: number, tiles: Tile[][]) {
+    this.chunkX = chunkX;
+    this.chunkY = chunkY;
+    this.tiles = tiles;
+  }
+  
+  public static fromSaveData(data: ChunkSaveData): Chunk {
+    // Chest contents are checked like the player's inventory
+    const chunk = new Chunk(data.chunkX, data.chunkY, data.tiles.map(row => row.map(({ chest, ...tile }): Tile => chest
+      ? { ...tile, chest: chest.map(row => row.map(slot => ({ ...slot, item: restoreItem(slot.item) }))) }
+      : tile)));
+    chunk.modified = true;
+    return chunk;
+  }
+  
+  public static key(chunkX: number, chunkY: number): string {
+    return `${chunkX},${chunkY}`;
+  }
+  
+  // Chunk coordinate containing a tile coordinate (works for negative tiles too)
+  public static toChunkCoord(tileCoord: number): number {
+    return Math.floor(tileCoord / Chunk.SIZE);
+  }
+  
+  public getKey(): string {
+    return Chunk.key(this.chunkX, this.chunkY);
+  }
+  
+  // World tile coordinates of the top-left tile
+  public getOriginX(): number {
+    return this.chunkX * Chunk.SIZE;
+  }
+  
+  public getOriginY(): number {
+    return this.chunkY * Chunk.SIZE;
+  }
+  
+  public getTile(localX: number, localY: number): Tile {
+    return this.tiles[localY][localX];
+  }
+  
+  public setTile(localX: number, localY: number, tile: Tile): void {
+    this.tiles[localY][localX] = tile;
+  }
+  
+  public getSaveData(lastSimulated: number, lastDay: number): ChunkSaveData {
+    return {
+      chunkX: this.chunkX,
+      chunkY: this.chunkY,
+      tiles: this.tiles.map(row => row.map(tile => tile.chest
+        ? { ...tile, chest: tile.chest.map(row => row.map(slot => ({ ...slot, item: slot.item ? toItemSaveData(slot.item) : null }))) }
+        : { ...tile })),
+      lastSimulated,
+      lastDay,
+    };
+  }
+}
\ No newline at end of file
@@ -0,0 +1,49 @@
+import { Random } from '../utils/random';
+
+export enum CropQuality {
+  Normal = 0,
+  Silver = 1,
+  Gold = 2,
+  Iridium = 3,
+}
+
+export const QUALITY_TIERS = [CropQuality.Normal, CropQuality.Silver, CropQuality.Gold, CropQuality.Iridium];
+
+export const QUALITY_NAMES = ['Normal', 'Silver', 'Gold', 'Iridium'];
+
+// Sell price multiplier per tier
+export const QUALITY_PRICE_MULTIPLIERS = [1, 1.25, 1.5, 2];
+
+// Badge colors shown on inventory slots
+export const QUALITY_COLORS = ['', '#C0C0C0', '#FFD700', '#B36BFF'];
+
+// How well a crop was looked after, each factor 0-1
+export interface CropCare {
+  watering: number; // Share of the crop's growth that happened while watered
+  soil: number; // Planted into moist soil and never left to wilt
+  fertilizer: number; // Bonus from fertilized soil
+}
+
+// Care without fertilizer tops out below 1; the remaining headroom (and with it
+// most of the iridium chance) has to come from fertilizer
+export function getCareScore(care: CropCare): number {
+  const base = 0.6 * care.watering + 0.4 * care.soil;
+  return Math.max(0, Math.min(1, 0.85 * base + 0.15 * care.fertilizer));
+}
+
+// Better care shifts the odds towards higher tiers; a perfect score still isn't a guarantee
+export function rollQuality(score: number, random: Random): CropQuality {
+  const roll = random.next();
+  const iridiumChance = Math.max(0, score - 0.8) * 1.5;
+  const goldChance = score * 0.35;
+  const silverChance = score * 0.7;
+  
+  if (roll < iridiumChance) return CropQuality.Iridium;
+  if (roll < goldChance) return CropQuality.Gold;
+  if (roll < silverChance) return CropQuality.Silver;
+  return CropQuality.Normal;
+}
+
+export function getQualityPrice(basePrice: number, quality: CropQuality = CropQuality.Normal): number {
+  return Math.floor(basePrice * QUALITY_PRICE_MULTIPLIERS[quality]);
+}
\ No newline at end of file
@@ -0,0 +1,141 @@
+import { Season, SEASON_NAMES } from './Calendar';
+import cropData from './data/crops.json';
+
+export type ProduceShape = 'root' | 'round' | 'grain' | 'fruit' | 'pod';
+
+// How a growth stage is drawn; textures are generated from this at startup
+export interface CropSprite {
+  stemColor: string;
+  leafColor: string;
+  height: number; // Pixels the stem rises above the soil
+  leafWidth: number;
+  leafHeight: number;
+  produceColor?: string; // Visible produce, usually only on the last stage
+  produceShape?: ProduceShape;
+}
+
+export interface CropStage {
+  minGrowth: number; // Growth (0-1) at which this stage starts
+  sprite: CropSprite;
+}
+
+export interface CropItem {
+  id: string;
+  name: string;
+  icon: string;
+}
+
+// Crops that keep producing: after each harvest the plant drops back to an earlier
+// stage and grows the next crop from there
+export interface CropRegrowth {
+  growth: number; // Growth (0-1) the plant returns to after a harvest
+  harvests: number; // Total harvests before the plant is spent
+}
+
+// Crops that can merge into one giant crop when a 3x3 block of them is fully grown
+export interface CropGiant {
+  chance: number; // 0-1 chance each night for an eligible block to merge
+  yield: number; // Harvest items dropped when the giant crop is felled
+  health: number; // Axe hits needed to fell it
+}
+
+export interface CropDefinition {
+  id: string;
+  name: string;
+  growTime: number; // Watered seconds from planting to maturity
+  waterNeed: number; // 0-1: share of growth that only happens while watered
+  seasons: string[]; // Lower-case season names the crop can be planted and grown in
+  wiltTime: number; // Seconds without water before the crop wilts and stops growing
+  deathTime: number; // Seconds without water before a wilted crop dies
+  seedItem: CropItem;
+  harvestItem: CropItem;
+  yield: number; // Harvest items per crop
+  seedReturn: number; // Seeds dropped alongside the harvest
+  seedPackSize: number; // Seeds per purchase at the shop
+  seedPackPrice: number;
+  sellPrice: number; // Per harvest item
+  regrowth?: CropRegrowth; // Absent for single-harvest crops
+  giant?: CropGiant; // Absent for crops that never grow giant
+  stages: CropStage[]; // Sorted by minGrowth, first at 0
+}
+
+export class CropRegistry {
+  private crops: Map<string, CropDefinition> = new Map();
+  private bySeedItem: Map<string, CropDefinition> = new Map();
+  private byHarvestItem: Map<string, CropDefinition> = new Map();
+  
+  constructor(definitions: CropDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+  
+  public register(definition: CropDefinition): void {
+    if (this.crops.has(definition.id)) {
+      throw new Error(`Crop "${definition.id}" is already registered`);
+    }
+    if (definition.growTime <= 0) {
+      throw new Error(`Crop "${definition.id}" must have a positive growTime`);
+    }
+    if (definition.stages.length === 0 || definition.stages[0].minGrowth !== 0) {
+      throw new Error(`Crop "${definition.id}" needs a first stage starting at growth 0`);
+    }
+    if (definition.regrowth && (definition.regrowth.growth < 0 || definition.regrowth.growth >= 1 || definition.regrowth.harvests < 1)) {
+      throw new Error(`Crop "${definition.id}" has invalid regrowth settings`);
+    }
+    if (definition.giant && (definition.regrowth || definition.giant.chance < 0 || definition.giant.chance > 1 || definition.giant.health < 1)) {
+      throw new Error(`Crop "${definition.id}" has invalid giant crop settings`);
+    }
+    if (definition.deathTime < definition.wiltTime) {
+      throw new Error(`Crop "${definition.id}" can't die before it wilts`);
+    }
+    const seasonNames = SEASON_NAMES.map(name => name.toLowerCase());
+    const unknownSeason = definition.seasons.find(season => !seasonNames.includes(season));
+    if (unknownSeason) {
+      throw new Error(`Crop "${definition.id}" has unknown season "${unknownSeason}"`);
+    }
+    
+    const stages = [...definition.stages].sort((a, b) => a.minGrowth - b.minGrowth);
+    const crop = { ...definition, stages };
+    this.crops.set(crop.id, crop);
+    this.bySeedItem.set(crop.seedItem.id, crop);
+    this.byHarvestItem.set(crop.harvestItem.id, crop);
+  }
+  
+  public get(cropId: string): CropDefinition | undefined {
+    return this.crops.get(cropId);
+  }
+  
+  public getAll(): CropDefinition[] {
+    return Array.from(this.crops.values());
+  }
+  
+  public getBySeedItem(itemId: string): CropDefinition | undefined {
+    return this.bySeedItem.get(itemId);
+  }
+  
+  public getByHarvestItem(itemId: string): CropDefinition | undefined {
+    return this.byHarvestItem.get(itemId);
+  }
+  
+  public isInSeason(crop: CropDefinition, season: Season): boolean {
+    return crop.seasons.includes(SEASON_NAMES[season].toLowerCase());
+  }
+  
+  // Readable list of a crop's seasons, e.g. "Spring, Fall"
+  public formatSeasons(crop: CropDefinition): string {
+    return crop.seasons.map(season => season.charAt(0).toUpperCase() + season.slice(1)).join(', ');
+  }
+  
+  // Index of the stage a crop at this growth is in
+  public getStageIndex(crop: CropDefinition, growth: number): number {
+    let index = 0;
+    for (let i = 0; i < crop.stages.length; i++) {
+      if (growth >= crop.stages[i].minGrowth) {
+        index = i;
+      }
+    }
+    return index;
+  }
+}
+
+// Crops shipped with the game; add new ones to data/crops.json
+export const cropRegistry = new CropRegistry(cropData as CropDefinition[]);
\ No newline at end of file
@@ -0,0 +1,50 @@
+import fertilizerData from './data/fertilizers.json';
+
+// Worked into tilled soil before or after planting. A fertilizer lasts until the
+// crop on the tile is finished, and every kind also tops up worn-out soil.
+export interface FertilizerDefinition {
+  id: string; // Also the inventory item id
+  name: string;
+  icon: string;
+  color: string; // Shown on the soil and in the tile highlight
+  fertilityRestore: number; // Added to the tile's fertility (0-1) when applied
+  retentionRestore: number; // Added to the tile's moisture retention (0-1) when applied
+  growthMultiplier: number; // Applied to the crop's growth rate
+  qualityBonus: number; // 0-1 fertilizer share of the harvest care score
+  waterMultiplier: number; // Applied to how long a watering lasts
+  packSize: number; // Bags per purchase at the shop
+  packPrice: number;
+}
+
+export class FertilizerRegistry {
+  private fertilizers: Map<string, FertilizerDefinition> = new Map();
+  
+  constructor(definitions: FertilizerDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+  
+  public register(definition: FertilizerDefinition): void {
+    if (this.fertilizers.has(definition.id)) {
+      throw new Error(`Fertilizer "${definition.id}" is already registered`);
+    }
+    if (definition.growthMultiplier <= 0 || definition.waterMultiplier <= 0) {
+      throw new Error(`Fertilizer "${definition.id}" must have positive multipliers`);
+    }
+    if (definition.qualityBonus < 0 || definition.qualityBonus > 1) {
+      throw new Error(`Fertilizer "${definition.id}" needs a qualityBonus between 0 and 1`);
+    }
+    
+    this.fertilizers.set(definition.id, { ...definition });
+  }
+  
+  public get(fertilizerId: string): FertilizerDefinition | undefined {
+    return this.fertilizers.get(fertilizerId);
+  }
+  
+  public getAll(): FertilizerDefinition[] {
+    return Array.from(this.fertilizers.values());
+  }
+}
+
+// Fertilizers shipped with the game; add new ones to data/fertilizers.json
+export const fertilizerRegistry = new FertilizerRegistry(fertilizerData as FertilizerDefinition[]);
\ No newline at end of file
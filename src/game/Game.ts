@@ -3,24 +3,40 @@ import { SpriteBatch } from '../engine/SpriteBatch';
 import { Texture } from '../engine/Texture';
 import { Camera } from '../engine/Camera';
 import { Input, Keys } from '../engine/Input';
-import { TileMap, TileType } from './TileMap';
+import { TileMap, TileType, Tile, DoorTarget } from './TileMap';
 import { Player } from './Player';
 import { ToolType } from './Inventory';
 import { ItemDropManager } from './ItemDrop';
 import { NPC } from './NPC';
-import { Shop } from './Shop';
+import { Shop, ShopEntry } from './Shop';
 import { Vec2 } from '../utils/math';
+import { Random } from '../utils/random';
 import { Shader } from '../engine/Shader';
 import { spriteVertexShader, spriteFragmentShader } from '../engine/shaders/sprite';
 import { Mat4 } from '../utils/math';
 import { AudioSystem } from '../engine/AudioSystem';
-import { InventorySystem } from './InventorySystem';
+import { InventorySystem, InventoryItem, InventorySlot, isBroken } from './InventorySystem';
 import { InventoryUI } from './InventoryUI';
 import { ActionSystem } from './ActionSystem';
 import { InteractableNPC } from './InteractableNPC';
 import { InteractableTile } from './InteractableTile';
+import { InteractableChest } from './InteractableChest';
 import { TileActionRenderer, TileAction } from './TileActionRenderer';
 import { Blacksmith } from './Blacksmith';
+import { SaveSystem, SaveData, SaveSlotMeta, SAVE_VERSION } from './SaveSystem';
+import { SaveSlotsUI } from './SaveSlotsUI';
+import { GameClock } from './GameClock';
+import { Calendar } from './Calendar';
+import { OfflineSimulator } from './OfflineSimulator';
+import { cropRegistry, CropSprite } from './CropRegistry';
+import { CropQuality, QUALITY_NAMES, QUALITY_TIERS } from './CropQuality';
+import { fertilizerRegistry } from './FertilizerRegistry';
+import { itemRegistry } from './ItemRegistry';
+import { repellentRegistry, RepellentDefinition } from './RepellentRegistry';
+import { sprinklerRegistry, SprinklerDefinition } from './SprinklerRegistry';
+import { VARIANT_TINTS } from './SeedGenetics';
+import { GameMap } from './GameMap';
+import { createGreenhousePasses, GREENHOUSE_ROOM } from './worldgen/InteriorPasses';
 
 export class Game {
   private canvas: HTMLCanvasElement;
@@ -29,9 +45,11 @@ export class Game {
   private camera: Camera;
   private input: Input;
   
-  private tileMap: TileMap;
+  private farm: GameMap;
+  private greenhouse: GameMap;
+  private maps: Map<string, GameMap> = new Map();
+  private currentMap: GameMap; // The map the player is on
   private player: Player;
-  private itemDropManager: ItemDropManager;
   private shopkeeper: NPC;
   private shop: Shop;
   private blacksmithNPC: NPC;
@@ -45,6 +63,7 @@ export class Game {
   private fpsTime: number = 0;
   private debugLogTime: number = 0;
   private shopToggled: boolean = false;
+  private openChestTile: { x: number, y: number } | null = null;
   private mouseWorldPos: Vec2 = new Vec2(0, 0);
   private hoveredTile: Vec2 | null = null;
   private audioSystem: AudioSystem;
@@ -55,40 +74,47 @@ export class Game {
   private actionSystem: ActionSystem;
   private tileActionRenderer: TileActionRenderer;
   private currentTileActions: TileAction[] = [];
+  private saveSystem: SaveSystem = new SaveSystem();
+  private saveSlotsUI: SaveSlotsUI;
+  private farmName: string = 'My Farm';
+  private playTime: number = 0; // Real seconds played on this farm
+  private gameClock: GameClock = new GameClock();
+  private calendar: Calendar = new Calendar(this.gameClock);
+  private clockPausedByVisibility: boolean = false;
+  private clockSpeeds: number[] = [0.5, 1, 2, 4];
+  
+  // Everything drawn and interacted with comes from the map the player is on
+  private get tileMap(): TileMap {
+    return this.currentMap.tileMap;
+  }
+  
+  private get itemDropManager(): ItemDropManager {
+    return this.currentMap.itemDrops;
+  }
   
   private findSafeSpawnPosition(): Vec2 {
     const tileSize = this.tileMap.getTileSize();
-    const worldWidth = this.tileMap.getWidth();
-    const worldHeight = this.tileMap.getHeight();
-    
-    // Try to find a grass or dirt tile near the center of the map
-    const centerX = Math.floor(worldWidth / 2);
-    const centerY = Math.floor(worldHeight / 2);
+    const maxRadius = 64; // Tiles; the world is unbounded, so give up eventually
     
-    // Search in expanding circles from the center
-    for (let radius = 0; radius < Math.max(worldWidth, worldHeight) / 2; radius++) {
+    // Search in expanding circles from the world origin
+    for (let radius = 0; radius < maxRadius; radius++) {
       for (let dx = -radius; dx <= radius; dx++) {
         for (let dy = -radius; dy <= radius; dy++) {
           // Only check points on the circle perimeter for efficiency
           if (Math.abs(dx) !== radius && Math.abs(dy) !== radius) continue;
           
-          const x = centerX + dx;
-          const y = centerY + dy;
-          
-          if (x >= 0 && x < worldWidth && y >= 0 && y < worldHeight) {
-            const tile = this.tileMap.getTileAt(x, y);
-            if (tile && (tile.type === TileType.Grass || tile.type === TileType.Dirt) && !tile.solid) {
-              // Found a safe tile, return world coordinates
-              return new Vec2(x * tileSize + tileSize / 2, y * tileSize + tileSize / 2);
-            }
+          const tile = this.tileMap.getTileAt(dx, dy);
+          if (tile && (tile.type === TileType.Grass || tile.type === TileType.Dirt) && !tile.solid) {
+            // Found a safe tile, return world coordinates
+            return new Vec2(dx * tileSize + tileSize / 2, dy * tileSize + tileSize / 2);
           }
         }
       }
     }
     
-    // Fallback to center if no safe position found (shouldn't happen)
-    console.warn('No safe spawn position found, using center');
-    return new Vec2(worldWidth * tileSize / 2, worldHeight * tileSize / 2);
+    // Fallback to the origin if no safe position found (shouldn't happen)
+    console.warn('No safe spawn position found, using origin');
+    return new Vec2(tileSize / 2, tileSize / 2);
   }
   
   private findSafePositionNear(nearX: number, nearY: number, maxDistance: number): Vec2 {
@@ -107,12 +133,10 @@ export class Game {
           const x = startTileX + dx;
           const y = startTileY + dy;
           
-          if (x >= 0 && x < this.tileMap.getWidth() && y >= 0 && y < this.tileMap.getHeight()) {
-            const tile = this.tileMap.getTileAt(x, y);
-            if (tile && (tile.type === TileType.Grass || tile.type === TileType.Dirt) && !tile.solid) {
-              // Found a safe tile
-              return new Vec2(x * tileSize + tileSize / 2, y * tileSize + tileSize / 2);
-            }
+          const tile = this.tileMap.getTileAt(x, y);
+          if (tile && (tile.type === TileType.Grass || tile.type === TileType.Dirt) && !tile.solid) {
+            // Found a safe tile
+            return new Vec2(x * tileSize + tileSize / 2, y * tileSize + tileSize / 2);
           }
         }
       }
@@ -132,12 +156,16 @@ export class Game {
     this.camera = new Camera(canvas.width, canvas.height);
     this.input = new Input(canvas);
     
-    this.tileMap = new TileMap(50, 50, 32);
+    const seed = Random.randomSeed();
+    this.farm = new GameMap('farm', this.createTileMap('farm', seed));
+    this.greenhouse = new GameMap('greenhouse', this.createTileMap('greenhouse', seed));
+    this.maps.set(this.farm.id, this.farm);
+    this.maps.set(this.greenhouse.id, this.greenhouse);
+    this.currentMap = this.farm;
     
     // Find a safe spawn position for the player
     const spawnPos = this.findSafeSpawnPosition();
     this.player = new Player(spawnPos.x, spawnPos.y);
-    this.itemDropManager = new ItemDropManager();
     
     // Create shopkeeper NPC at a safe position near spawn
     const shopkeeperPos = this.findSafePositionNear(spawnPos.x, spawnPos.y, 200);
@@ -148,7 +176,7 @@ export class Game {
       type: 'shopkeeper',
       dialogue: [
         'Welcome to Emma\'s Seeds & Produce!',
-        'I buy fresh carrots and sell quality seeds.',
+        'I buy fresh produce and sell quality seeds.',
         'Press F to open the shop!'
       ]
     });
@@ -170,20 +198,29 @@ export class Game {
     });
     
     this.blacksmith = new Blacksmith();
+    this.farm.npcs.push(this.shopkeeper, this.blacksmithNPC);
+    this.buildGreenhouse(spawnPos);
     
     this.audioSystem = new AudioSystem();
     this.inventorySystem = new InventorySystem();
-    this.inventoryUI = new InventoryUI(this.inventorySystem);
+    this.inventoryUI = new InventoryUI(this.inventorySystem, () => this.getNearbyChests());
     this.actionSystem = new ActionSystem();
     this.tileActionRenderer = new TileActionRenderer(this.renderer);
+    this.saveSlotsUI = new SaveSlotsUI(this.saveSystem, this);
     
     // Register shopkeeper as interactable
     const interactableShopkeeper = new InteractableNPC(this.shopkeeper, this, this.shop);
-    this.actionSystem.registerInteractable('shopkeeper', interactableShopkeeper);
+    this.farm.interactables.set('shopkeeper', interactableShopkeeper);
     
     // Register blacksmith as interactable
     const interactableBlacksmith = new InteractableNPC(this.blacksmithNPC, this, undefined, this.blacksmith);
-    this.actionSystem.registerInteractable('blacksmith', interactableBlacksmith);
+    this.farm.interactables.set('blacksmith', interactableBlacksmith);
+    
+    // Chests can be placed on any map
+    for (const map of [this.farm, this.greenhouse]) {
+      map.interactables.set('chests', new InteractableChest(map, (x, y) => this.openChest(x, y)));
+    }
+    this.enterMap(this.farm);
     
     this.setupEventListeners();
     this.init();
@@ -192,85 +229,457 @@ export class Game {
     (window as any).gameInstance = this;
   }
   
-  public handleShopBuy(): void {
-    console.log('Shop buy button clicked!');
-    if (this.player.getMoney() >= 10) {
-      this.player.spendMoney(10);
-      this.inventorySystem.addItem({
-        id: 'carrot_seeds',
-        name: 'Carrot Seeds',
-        icon: '🥕',
-        quantity: 5,
-        stackable: true,
-        type: 'seed',
-        toolType: 'seeds'
-      });
-      this.inventoryUI.updateHotbar();
-      this.updateShopUI();
-      this.audioSystem.playSound('pickup', 0.4);
+  public handleShopBuy(itemId: string): void {
+    const shopItem = this.shop.getItem(itemId);
+    if (!shopItem || !this.shop.canBuyItem(itemId, this.player.getMoney())) return;
+    
+    const definition = itemRegistry.get(itemId);
+    if (!definition) return;
+    
+    const item = itemRegistry.createItem(definition, shopItem.bundleSize || 1);
+    if (!this.inventorySystem.commit({ add: [item], money: -this.shop.buyItem(itemId) }, this.player)) {
+      console.log(`No room for ${item.quantity} ${shopItem.name}!`);
+      return;
     }
+    console.log(`Bought ${shopItem.bundleSize || 1} ${shopItem.name} for ${shopItem.buyPrice} coins!`);
+    this.audioSystem.playSound('purchase', 0.6);
+    this.inventoryUI.updateHotbar();
+    this.updateShopUI();
   }
   
-  public handleShopSell(): void {
-    console.log('Shop sell button clicked!');
-    const carrotCount = this.inventorySystem.getItemCount('carrot');
-    if (carrotCount > 0) {
-      this.inventorySystem.removeItem('carrot', 1);
-      this.player.addMoney(15);
+  public handleShopSell(itemId: string, quality: CropQuality = CropQuality.Normal): void {
+    const price = this.shop.sellItem(itemId, 1, quality);
+    if (this.inventorySystem.commit({ remove: [{ id: itemId, quantity: 1, quality }], money: price }, this.player)) {
+      console.log(`Sold 1 ${QUALITY_NAMES[quality]} ${itemId} for ${price} coins!`);
+      this.audioSystem.playSound('coin', 0.5);
       this.inventoryUI.updateHotbar();
       this.updateShopUI();
-      this.audioSystem.playSound('pickup', 0.5);
     }
   }
   
-  public handleBlacksmithSellWood(): void {
-    console.log('Blacksmith sell wood clicked!');
-    const woodCount = this.inventorySystem.getItemCount('wood');
-    if (woodCount > 0) {
-      this.inventorySystem.removeItem('wood', 1);
-      this.player.addMoney(5);
-      this.inventoryUI.updateHotbar();
-      this.updateBlacksmithUI();
-      this.audioSystem.playSound('pickup', 0.4);
-    }
-  }
-  
-  public handleBlacksmithBuyIron(): void {
-    console.log('Blacksmith buy iron clicked!');
-    if (this.player.getMoney() >= 25) {
-      this.player.spendMoney(25);
-      this.inventorySystem.addItem({
-        id: 'iron_ingot',
-        name: 'Iron Ingot',
-        icon: '⚙️',
-        quantity: 1,
-        stackable: true,
-        type: 'material'
-      });
-      this.inventoryUI.updateHotbar();
-      this.updateBlacksmithUI();
-      this.audioSystem.playSound('pickup', 0.5);
-    }
-  }
-  
-  public handleBlacksmithBuyGold(): void {
-    console.log('Blacksmith buy gold clicked!');
-    if (this.player.getMoney() >= 100) {
-      this.player.spendMoney(100);
-      this.inventorySystem.addItem({
-        id: 'gold_ingot',
-        name: 'Gold Ingot',
-        icon: '🟨',
-        quantity: 1,
-        stackable: true,
-        type: 'material'
-      });
+  // Items that do something when used on a tile
+  private isUsableItem(item: InventoryItem): boolean {
+    return ['tool', 'seed', 'fertilizer', 'repellent', 'placeable'].includes(item.type) && !!item.toolType;
+  }
+  
+  // Seeds, fertilizer, repellent and placed objects are used up when they take; tools are not
+  private isConsumedOnUse(item: InventoryItem): boolean {
+    return (item.type === 'seed' && (item.toolType === 'seeds' || item.toolType === 'treeSeeds')) || item.toolType === 'fertilizer' ||
+      item.toolType === 'repellent' || item.toolType === 'sprinkler' || item.toolType === 'chest';
+  }
+  
+  // Uses the selected hotbar item on a tile. Seeds, fertilizer, repellent and placed objects come
+  // out of their hotbar slot only when they take, which is read off the tile before and after.
+  private useItemOnTile(item: InventoryItem, tileX: number, tileY: number, use: () => void): void {
+    if (isBroken(item)) {
+      this.inventoryUI.showMessage(`${item.name} is broken - have it repaired at the blacksmith`);
+      return;
+    }
+    if (!this.isConsumedOnUse(item)) {
+      use();
+      return;
+    }
+    
+    const tileBefore = this.tileMap.getTileAt(tileX, tileY);
+    const wasGrass = tileBefore?.type === TileType.Grass;
+    const wasTilledNotPlanted = tileBefore?.type === TileType.TilledDirt && !tileBefore.planted;
+    const hadFertilizer = !!tileBefore?.fertilizer;
+    const repelledBefore = tileBefore?.repelledUntil;
+    const wasSprinkler = tileBefore?.type === TileType.Sprinkler;
+    const wasChest = tileBefore?.type === TileType.Chest;
+    
+    use();
+    
+    const tileAfter = this.tileMap.getTileAt(tileX, tileY);
+    let used = false;
+    switch (item.toolType) {
+      case 'seeds':
+        // Crop seeds take when tilled, unplanted soil ends up planted
+        used = wasTilledNotPlanted && tileAfter?.planted === true;
+        break;
+      case 'treeSeeds':
+        // Tree seeds take when grass becomes a stump
+        used = wasGrass && tileAfter?.type === TileType.TreeStump;
+        break;
+      case 'fertilizer':
+        // Fertilizer takes when worked into previously unfertilized soil
+        used = !hadFertilizer && tileAfter?.fertilizer === item.id;
+        break;
+      case 'repellent':
+        // Repellent takes when it extends the soil's protection
+        used = tileAfter?.repelledUntil !== repelledBefore;
+        break;
+      case 'sprinkler':
+        used = !wasSprinkler && tileAfter?.type === TileType.Sprinkler;
+        break;
+      case 'chest':
+        used = !wasChest && tileAfter?.type === TileType.Chest;
+        break;
+    }
+    
+    if (used && this.inventorySystem.consumeSelectedHotbarItem()) {
       this.inventoryUI.updateHotbar();
-      this.updateBlacksmithUI();
-      this.audioSystem.playSound('pickup', 0.6);
     }
   }
   
+  // Shop rows in display order. Produce gets a sell row per quality tier the player holds
+  private getShopEntries(): ShopEntry[] {
+    const entries: ShopEntry[] = [];
+    for (const item of this.shop.getItems()) {
+      if (this.shop.sellsItem(item.id)) {
+        entries.push({ action: 'buy', item, quality: CropQuality.Normal });
+        continue;
+      }
+      
+      const held = QUALITY_TIERS.filter(q => this.inventorySystem.getItemCount(item.id, q) > 0);
+      for (const quality of held.length > 0 ? held : [CropQuality.Normal]) {
+        entries.push({ action: 'sell', item, quality });
+      }
+    }
+    return entries;
+  }
+  
+  public handleBlacksmithSell(itemId: string): void {
+    const price = this.blacksmith.sellItem(itemId);
+    if (!this.inventorySystem.commit({ remove: [{ id: itemId, quantity: 1 }], money: price }, this.player)) return;
+    
+    console.log(`Sold 1 ${itemId} for ${price} coins!`);
+    this.audioSystem.playSound('coin', 0.4);
+    this.inventoryUI.updateHotbar();
+    this.updateBlacksmithUI();
+  }
+  
+  public handleBlacksmithBuy(itemId: string): void {
+    const definition = itemRegistry.get(itemId);
+    if (!definition || !this.blacksmith.canBuyItem(itemId, this.player.getMoney())) return;
+    
+    const price = this.blacksmith.buyItem(itemId);
+    if (!this.inventorySystem.commit({ add: [itemRegistry.createItem(definition, 1)], money: -price }, this.player)) {
+      console.log(`No room for ${definition.name}!`);
+      return;
+    }
+    console.log(`Bought 1 ${definition.name} for ${price} coins!`);
+    this.audioSystem.playSound('purchase', 0.5);
+    this.inventoryUI.updateHotbar();
+    this.updateBlacksmithUI();
+  }
+  
+  public handleBlacksmithRepair(): void {
+    const tools = this.inventorySystem.getWornItems();
+    if (tools.length === 0) return;
+    
+    const price = this.blacksmith.getRepairPrice(tools.length);
+    if (!this.inventorySystem.commit({ money: -price }, this.player)) {
+      console.log(`Repairs cost ${price} coins!`);
+      return;
+    }
+    for (const tool of tools) {
+      tool.data = { ...tool.data, durability: itemRegistry.get(tool.id)?.durability };
+    }
+    console.log(`Repaired ${tools.length} tool(s) for ${price} coins!`);
+    this.audioSystem.playSound('purchase', 0.5);
+    this.inventoryUI.updateHotbar();
+    this.updateBlacksmithUI();
+  }
+  
+  public saveGame(slot: number): boolean {
+    // A stack dragged out of a chest goes back before the chest is saved with its map, and
+    // one with nowhere to go is dropped so the save keeps it
+    if (!this.inventorySystem.cancelDragging()) {
+      this.dropDraggedItem();
+    }
+    const data: SaveData = {
+      version: SAVE_VERSION,
+      savedAt: Date.now(),
+      farmName: this.farmName,
+      playTime: this.playTime,
+      clock: this.gameClock.getSaveData(),
+      maps: Array.from(this.maps.values()).map(map => map.getSaveData()),
+      currentMap: this.currentMap.id,
+      inventory: this.inventorySystem.getSaveData(),
+      player: this.player.getSaveData(),
+      npcs: [this.shopkeeper, this.blacksmithNPC].map(npc => ({
+        id: npc.id,
+        x: npc.position.x,
+        y: npc.position.y,
+      })),
+    };
+    
+    const meta: SaveSlotMeta = {
+      farmName: this.farmName,
+      date: this.calendar.formatDate(),
+      money: this.player.getMoney(),
+      playTime: this.playTime,
+      savedAt: data.savedAt,
+      thumbnail: this.captureThumbnail(),
+    };
+    
+    const saved = this.saveSystem.save(slot, meta, data);
+    if (saved) {
+      console.log(`Game saved to slot ${slot + 1}!`);
+      this.inventoryUI.updateDisplay();
+    }
+    return saved;
+  }
+  
+  // Throws SaveVersionError/SaveMigrationError if the slot can't be upgraded to this build.
+  // With simulateTimeAway, the world is fast-forwarded by the real time since the save was written.
+  public loadGame(slot: number, simulateTimeAway: boolean = false): boolean {
+    const data = this.saveSystem.load(slot);
+    if (!data) {
+      console.warn(`No valid save to load in slot ${slot + 1}`);
+      return false;
+    }
+    
+    this.farmName = data.farmName;
+    this.playTime = data.playTime;
+    this.gameClock.loadSaveData(data.clock);
+    this.clockPausedByVisibility = false;
+    this.calendar.resync();
+    
+    // Maps the save predates start fresh from the farm's seed (the farm is loaded first,
+    // being first in the list), and a greenhouse is put up on the farm for them
+    this.enterMap(this.farm);
+    for (const map of this.maps.values()) {
+      const mapData = data.maps.find(m => m.id === map.id);
+      if (mapData) {
+        map.loadSaveData(mapData);
+      } else {
+        map.tileMap = this.createTileMap(map.id, this.farm.tileMap.getSeed());
+        map.itemDrops.clear();
+      }
+    }
+    if (!data.maps.some(m => m.id === this.greenhouse.id)) {
+      this.buildGreenhouse(this.findSafeSpawnPosition());
+    }
+    
+    this.enterMap(this.maps.get(data.currentMap) ?? this.farm);
+    this.player.loadSaveData(data.player);
+    
+    if (simulateTimeAway && !this.gameClock.isPaused()) {
+      const realSecondsAway = Math.max(0, (Date.now() - data.savedAt) / 1000);
+      const simulator = new OfflineSimulator(this.gameClock, this.calendar, Array.from(this.maps.values()).map(map => map.tileMap));
+      const result = simulator.simulate(realSecondsAway * this.gameClock.getSpeed());
+      console.log(`Simulated ${Math.round(result.seconds)}s away (${result.days} day(s) passed)`);
+    }
+    
+    // Bounds first, since chunks loading here catch up and may try to grow a giant crop
+    this.tileMap.setPlayerBounds(this.player.getBounds());
+    this.tileMap.updateStreaming(this.player.getPosition().x, this.player.getPosition().y);
+    this.inventorySystem.loadSaveData(data.inventory);
+    
+    for (const npc of [this.shopkeeper, this.blacksmithNPC]) {
+      const npcData = data.npcs.find(n => n.id === npc.id);
+      if (npcData) {
+        npc.position = new Vec2(npcData.x, npcData.y);
+      }
+    }
+    
+    this.resetTransientState();
+    console.log(`Game loaded from slot ${slot + 1}!`);
+    return true;
+  }
+  
+  public newGame(seed: number): void {
+    this.gameClock.reset();
+    this.clockPausedByVisibility = false;
+    this.calendar.resync();
+    this.farmName = 'My Farm';
+    this.playTime = 0;
+    
+    this.enterMap(this.farm);
+    for (const map of this.maps.values()) {
+      map.tileMap = this.createTileMap(map.id, seed);
+      map.itemDrops.clear();
+    }
+    
+    const spawnPos = this.findSafeSpawnPosition();
+    this.player = new Player(spawnPos.x, spawnPos.y);
+    this.shopkeeper.position = this.findSafePositionNear(spawnPos.x, spawnPos.y, 200);
+    this.blacksmithNPC.position = this.findSafePositionNear(spawnPos.x + 300, spawnPos.y, 200);
+    this.buildGreenhouse(spawnPos);
+    
+    this.inventorySystem.reset();
+    
+    this.resetTransientState();
+    console.log(`Started a new farm with seed ${this.tileMap.getSeed()}`);
+  }
+  
+  public getSeed(): number {
+    return this.farm.tileMap.getSeed();
+  }
+  
+  // Fresh terrain for a map. Every map is generated from the farm's seed.
+  private createTileMap(mapId: string, seed: number): TileMap {
+    if (mapId === 'greenhouse') {
+      return new TileMap(this.gameClock, this.calendar, seed, 32, createGreenhousePasses(), true);
+    }
+    return new TileMap(this.gameClock, this.calendar, seed, 32);
+  }
+  
+  // Puts the greenhouse up on clear ground a little north of the given position and links
+  // its door with the exit of the greenhouse interior
+  private buildGreenhouse(near: Vec2): void {
+    const farmMap = this.farm.tileMap;
+    const tileSize = farmMap.getTileSize();
+    const width = TileMap.GREENHOUSE_WIDTH;
+    const height = TileMap.GREENHOUSE_HEIGHT;
+    const startX = Math.floor(near.x / tileSize) - Math.floor(width / 2);
+    const startY = Math.floor(near.y / tileSize) - height - 4;
+    
+    for (let radius = 0; radius < 32; radius++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          if (Math.abs(dx) !== radius && Math.abs(dy) !== radius) continue;
+          
+          // Leave a clear row below for arriving through the door
+          if (!farmMap.canBuild(startX + dx, startY + dy, width, height + 1)) continue;
+          const door = farmMap.buildGreenhouse(startX + dx, startY + dy);
+          if (!door) continue;
+          
+          farmMap.linkDoor(door.tileX, door.tileY, { mapId: this.greenhouse.id, tileX: GREENHOUSE_ROOM.exitX, tileY: GREENHOUSE_ROOM.exitY - 1 });
+          this.greenhouse.tileMap.linkDoor(GREENHOUSE_ROOM.exitX, GREENHOUSE_ROOM.exitY, { mapId: this.farm.id, tileX: door.tileX, tileY: door.tileY + 1 });
+          return;
+        }
+      }
+    }
+    
+    console.warn('No room to build the greenhouse');
+  }
+  
+  // Makes the map the one the player is on, swapping its interactables in for the old map's
+  private enterMap(map: GameMap): void {
+    for (const id of this.currentMap.interactables.keys()) {
+      this.actionSystem.unregisterInteractable(id);
+    }
+    this.currentMap.tileMap.setPlayerBounds(null);
+    this.currentMap = map;
+    for (const [id, interactable] of map.interactables) {
+      this.actionSystem.registerInteractable(id, interactable);
+    }
+  }
+  
+  // Takes the player through a door onto its arrival tile in the other map (or the nearest
+  // open ground, if something has been put there since)
+  private travelTo(target: DoorTarget): void {
+    const map = this.maps.get(target.mapId);
+    if (!map) return;
+    
+    this.enterMap(map);
+    const tileSize = this.tileMap.getTileSize();
+    let arrival = new Vec2(target.tileX * tileSize + tileSize / 2, target.tileY * tileSize + tileSize / 2);
+    if (this.tileMap.isSolid(arrival.x, arrival.y)) {
+      arrival = this.findSafePositionNear(arrival.x, arrival.y, 160);
+    }
+    
+    this.player.setPosition(arrival.x, arrival.y);
+    this.tileMap.updateStreaming(arrival.x, arrival.y);
+    this.hoveredTile = null;
+    this.resetTransientState();
+  }
+  
+  // Opens the chest on the tile alongside the player's inventory, or closes it if it's already open
+  private openChest(tileX: number, tileY: number): void {
+    const chest = this.tileMap.getChest(tileX, tileY);
+    if (!chest) return;
+    
+    const alreadyOpen = this.inventorySystem.getContainer() === chest;
+    if (this.inventorySystem.isInventoryOpen()) {
+      this.inventorySystem.toggleInventory();
+      this.inventoryUI.hideInventory();
+    }
+    if (alreadyOpen) {
+      this.openChestTile = null;
+      this.audioSystem.playSound('uiClose', 0.5);
+      return;
+    }
+    
+    this.inventorySystem.openContainer(chest);
+    this.openChestTile = { x: tileX, y: tileY };
+    this.inventoryUI.showInventory();
+    this.audioSystem.playSound('uiOpen', 0.5);
+  }
+  
+  // Leaves the item in hand at the player's feet, for when it couldn't be put back in the inventory
+  private dropDraggedItem(): void {
+    const item = this.inventorySystem.takeDraggedItem();
+    if (!item) return;
+    
+    const playerPos = this.player.getPosition();
+    this.itemDropManager.createDrop(playerPos.x, playerPos.y, item.id, item.quantity, item.quality, item.traits, item.data);
+  }
+  
+  // Chests close enough for the inventory's stack-to-chests button to reach
+  private getNearbyChests(): InventorySlot[][][] {
+    const playerPos = this.player.getPosition();
+    const tileSize = this.tileMap.getTileSize();
+    return this.tileMap.getChestsNear(Math.floor(playerPos.x / tileSize), Math.floor(playerPos.y / tileSize), 3);
+  }
+  
+  // Closes an open chest once the player walks away or it's no longer there
+  private updateOpenChest(playerPos: Vec2): void {
+    if (!this.openChestTile) return;
+    
+    const { x, y } = this.openChestTile;
+    const chest = this.inventorySystem.getContainer();
+    if (!chest) {
+      // The inventory was closed some other way
+      this.openChestTile = null;
+      return;
+    }
+    
+    const tileSize = this.tileMap.getTileSize();
+    const dx = x * tileSize + tileSize / 2 - playerPos.x;
+    const dy = y * tileSize + tileSize / 2 - playerPos.y;
+    if (chest !== this.tileMap.getChest(x, y) || dx * dx + dy * dy > 64 * 64) {
+      this.inventorySystem.toggleInventory();
+      this.inventoryUI.hideInventory();
+      this.openChestTile = null;
+    }
+  }
+  
+  // NPCs only meet the player on the map they live on
+  private isNearNPC(npc: NPC): boolean {
+    return this.currentMap.npcs.includes(npc) && npc.isNearPlayer(this.player.getPosition());
+  }
+  
+  // Closes menus and snaps the camera after the world is swapped out from under them
+  private resetTransientState(): void {
+    this.shop.close();
+    this.blacksmith.close();
+    if (this.inventorySystem.isInventoryOpen()) {
+      this.inventorySystem.toggleInventory();
+      this.inventoryUI.hideInventory();
+    }
+    
+    const playerPos = this.player.getPosition();
+    this.camera.setPosition(playerPos.x, playerPos.y);
+    
+    this.inventoryUI.updateDisplay();
+  }
+  
+  public getFarmName(): string {
+    return this.farmName;
+  }
+  
+  public setFarmName(name: string): void {
+    this.farmName = name.trim() || 'My Farm';
+  }
+  
+  private captureThumbnail(): string {
+    // Render a fresh frame so the WebGL drawing buffer is valid when copied
+    this.render();
+    
+    const thumbnail = document.createElement('canvas');
+    thumbnail.width = 160;
+    thumbnail.height = 120;
+    const ctx = thumbnail.getContext('2d');
+    if (!ctx) return '';
+    
+    ctx.drawImage(this.canvas, 0, 0, thumbnail.width, thumbnail.height);
+    return thumbnail.toDataURL('image/jpeg', 0.7);
+  }
+  
   private async init(): Promise<void> {
     await this.loadAssets();
     this.start();
@@ -309,6 +718,27 @@ export class Game {
       const initialVolume = parseInt(volumeSlider.value) / 100;
       this.audioSystem.setMusicVolume(initialVolume);
     }
+    
+    // Stop world timers while the tab is in the background
+    document.addEventListener('visibilitychange', () => {
+      if (document.hidden) {
+        if (!this.gameClock.isPaused()) {
+          this.gameClock.pause();
+          this.clockPausedByVisibility = true;
+        }
+      } else if (this.clockPausedByVisibility) {
+        this.gameClock.resume();
+        this.clockPausedByVisibility = false;
+      }
+    });
+    
+    // Setup saved farms button
+    const savesButton = document.getElementById('savesButton');
+    savesButton?.addEventListener('click', () => {
+      this.saveSlotsUI.toggle();
+      this.audioSystem.playSound(this.saveSlotsUI.isOpen() ? 'uiOpen' : 'uiClose', 0.5);
+      this.canvas.focus();
+    });
   }
   
   private async loadAndPlayMusic(): Promise<void> {
@@ -392,14 +822,35 @@ export class Game {
     // Generate watered dirt texture
     this.textures.set('wateredDirt', this.generateWateredDirtTexture());
     
-    // Generate plant textures for different growth stages
-    this.textures.set('plant_0.2', this.generatePlantTexture(0.2));
-    this.textures.set('plant_0.5', this.generatePlantTexture(0.5));
-    this.textures.set('plant_1.0', this.generatePlantTexture(1.0));
+    // Generate plant and item textures for every crop's growth stages
+    for (const crop of cropRegistry.getAll()) {
+      crop.stages.forEach((stage, index) => {
+        this.textures.set(`plant_${crop.id}_${index}`, this.generatePlantTexture(stage.sprite));
+        this.textures.set(`plant_${crop.id}_${index}_wilted`, this.generatePlantTexture(stage.sprite, true));
+      });
+      
+      const mature = crop.stages[crop.stages.length - 1].sprite;
+      this.textures.set(`item_${crop.harvestItem.id}`, this.generateProduceItemTexture(mature));
+      this.textures.set(`item_${crop.seedItem.id}`, this.generateSeedItemTexture());
+      if (crop.giant) {
+        this.textures.set(`giant_${crop.id}`, this.generateGiantCropTexture(mature));
+      }
+    }
+    
+    this.textures.set('deadPlant', this.generateDeadPlantTexture());
+    this.textures.set('greenhouse', this.generateGreenhouseTexture());
+    this.textures.set('wall', this.generateWallTexture());
+    this.textures.set('doorway', this.generateDoorwayTexture());
+    this.textures.set('weeds', this.generateWeedsTexture());
+    this.textures.set('pests', this.generatePestsTexture());
+    this.textures.set('chest', this.generateChestTexture()); // Also the dropped chest item
+    
+    // Placed sprinklers double as their dropped item
+    for (const sprinkler of sprinklerRegistry.getAll()) {
+      this.textures.set(`sprinkler_${sprinkler.id}`, this.generateSprinklerTexture(sprinkler));
+    }
     
     // Generate item drop textures
-    this.textures.set('item_carrot', this.generateCarrotItemTexture());
-    this.textures.set('item_seeds', this.generateSeedItemTexture());
     this.textures.set('item_tree_seeds', this.generateTreeSeedItemTexture());
     
     // Load wood/log texture from image
@@ -665,7 +1116,8 @@ export class Game {
     return Texture.fromImageData(gl, imageData);
   }
   
-  private generatePlantTexture(growth: number = 1): Texture {
+  // Wilted plants are drawn drooping and faded towards straw brown
+  private generatePlantTexture(sprite: CropSprite, wilted: boolean = false): Texture {
     const gl = this.renderer.getGL();
     const size = 32;
     const canvas = document.createElement('canvas');
@@ -673,69 +1125,297 @@ export class Game {
     canvas.height = size;
     const ctx = canvas.getContext('2d')!;
     
-    if (growth < 0.3) {
-      // Sprout
-      ctx.strokeStyle = '#2ecc71';
-      ctx.lineWidth = 2;
-      ctx.beginPath();
-      ctx.moveTo(16, 24);
-      ctx.lineTo(16, 20);
-      ctx.stroke();
-      
-      // Tiny leaves
-      ctx.fillStyle = '#27ae60';
-      ctx.beginPath();
-      ctx.arc(14, 20, 2, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.beginPath();
-      ctx.arc(18, 20, 2, 0, Math.PI * 2);
-      ctx.fill();
-    } else if (growth < 0.7) {
-      // Growing plant
-      ctx.strokeStyle = '#2ecc71';
-      ctx.lineWidth = 2.5;
+    const soilY = 24;
+    const topY = soilY - (wilted ? sprite.height * 0.6 : sprite.height);
+    const leafAngle = wilted ? 1.1 : 0.3;
+    
+    // Stem, thicker as the plant gets taller
+    ctx.strokeStyle = wilted ? '#8d7b4a' : sprite.stemColor;
+    ctx.lineWidth = Math.min(3, 2 + sprite.height / 16);
+    ctx.beginPath();
+    ctx.moveTo(16, soilY);
+    ctx.lineTo(16, topY);
+    ctx.stroke();
+    
+    // A pair of leaves at the top of the stem
+    ctx.fillStyle = wilted ? '#a08c52' : sprite.leafColor;
+    const leafOffset = sprite.leafWidth;
+    ctx.beginPath();
+    ctx.ellipse(16 - leafOffset, topY, sprite.leafWidth, sprite.leafHeight, -leafAngle, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.ellipse(16 + leafOffset, topY, sprite.leafWidth, sprite.leafHeight, leafAngle, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Produce showing once the crop is ready
+    if (sprite.produceColor) {
+      ctx.fillStyle = sprite.produceColor;
+      switch (sprite.produceShape) {
+        case 'round':
+          ctx.beginPath();
+          ctx.arc(11, soilY - 1, 3, 0, Math.PI * 2);
+          ctx.arc(21, soilY - 1, 3, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        case 'grain':
+          // Ear of grain on top of the stalk
+          ctx.beginPath();
+          ctx.ellipse(16, topY - 3, 2, 5, 0, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+        case 'fruit':
+          // Fruit hanging among the leaves
+          for (const [fx, fy] of [[11, topY + 4], [20, topY + 2], [15, topY + 8]]) {
+            ctx.beginPath();
+            ctx.arc(fx, fy, 2.5, 0, Math.PI * 2);
+            ctx.fill();
+          }
+          break;
+        case 'pod':
+          // Pods dangling from the vine
+          for (const [px, py] of [[12, topY + 6], [20, topY + 4], [17, topY + 10]]) {
+            ctx.beginPath();
+            ctx.ellipse(px, py, 1.2, 4, 0.2, 0, Math.PI * 2);
+            ctx.fill();
+          }
+          break;
+        case 'root':
+        default:
+          // Root poking out of the soil
+          ctx.beginPath();
+          ctx.ellipse(16, soilY - 4, 3, 5, 0, 0, Math.PI * 2);
+          ctx.fill();
+          break;
+      }
+    }
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  // One big piece of produce filling a 3x3 block, with leaves sprouting from the top
+  private generateGiantCropTexture(sprite: CropSprite): Texture {
+    const gl = this.renderer.getGL();
+    const size = 96;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Shadow on the soil
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.25)';
+    ctx.beginPath();
+    ctx.ellipse(48, 84, 36, 9, 0, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Body: tall and tapered for roots, round for everything else
+    const produceColor = sprite.produceColor || '#ff6b35';
+    ctx.fillStyle = produceColor;
+    ctx.beginPath();
+    if (sprite.produceShape === 'root') {
+      ctx.moveTo(20, 36);
+      ctx.quadraticCurveTo(48, 20, 76, 36);
+      ctx.quadraticCurveTo(62, 70, 48, 90);
+      ctx.quadraticCurveTo(34, 70, 20, 36);
+    } else {
+      ctx.ellipse(48, 56, 34, 29, 0, 0, Math.PI * 2);
+    }
+    ctx.fill();
+    
+    // Shading and highlight
+    ctx.strokeStyle = 'rgba(0, 0, 0, 0.2)';
+    ctx.lineWidth = 2;
+    for (const offset of [46, 58, 70]) {
       ctx.beginPath();
-      ctx.moveTo(16, 24);
-      ctx.lineTo(16, 16);
+      ctx.moveTo(30, offset);
+      ctx.quadraticCurveTo(48, offset + 4, 66, offset);
       ctx.stroke();
-      
-      // Medium leaves
-      ctx.fillStyle = '#27ae60';
-      ctx.beginPath();
-      ctx.ellipse(12, 16, 4, 6, -0.3, 0, Math.PI * 2);
-      ctx.fill();
+    }
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+    ctx.beginPath();
+    ctx.ellipse(36, 44, 7, 11, -0.4, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Leaves
+    ctx.fillStyle = sprite.leafColor;
+    for (const [lx, ly, angle] of [[36, 22, -0.6], [48, 16, 0], [60, 22, 0.6]]) {
       ctx.beginPath();
-      ctx.ellipse(20, 16, 4, 6, 0.3, 0, Math.PI * 2);
+      ctx.ellipse(lx, ly, 6, 14, angle, 0, Math.PI * 2);
       ctx.fill();
-    } else {
-      // Mature plant with carrots
-      ctx.strokeStyle = '#2ecc71';
-      ctx.lineWidth = 3;
+    }
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  private generateDeadPlantTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Collapsed brown stalks
+    ctx.strokeStyle = '#5d4a2a';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(16, 24);
+    ctx.lineTo(10, 18);
+    ctx.moveTo(16, 24);
+    ctx.lineTo(22, 19);
+    ctx.moveTo(16, 24);
+    ctx.lineTo(15, 16);
+    ctx.stroke();
+    
+    // Shrivelled leaves
+    ctx.fillStyle = '#7a6338';
+    ctx.beginPath();
+    ctx.ellipse(9, 19, 3, 1.5, 0.6, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.beginPath();
+    ctx.ellipse(23, 20, 3, 1.5, -0.6, 0, Math.PI * 2);
+    ctx.fill();
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  private generateWeedsTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Tufts of spiky leaves scattered over the soil
+    const tufts = [[8, 12], [22, 9], [14, 22], [25, 24], [5, 26]];
+    for (const [x, y] of tufts) {
+      ctx.strokeStyle = '#4f6b22';
+      ctx.lineWidth = 1.5;
       ctx.beginPath();
-      ctx.moveTo(16, 24);
-      ctx.lineTo(16, 8);
+      for (const angle of [-0.9, -0.4, 0, 0.4, 0.9]) {
+        ctx.moveTo(x, y + 4);
+        ctx.lineTo(x + Math.sin(angle) * 6, y + 4 - Math.cos(angle) * 7);
+      }
       ctx.stroke();
-      
-      // Full leaves
-      ctx.fillStyle = '#27ae60';
-      ctx.beginPath();
-      ctx.ellipse(11, 8, 5, 10, -0.3, 0, Math.PI * 2);
-      ctx.fill();
+    }
+    
+    // A few tiny seed heads
+    ctx.fillStyle = '#c9b458';
+    for (const [x, y] of [[8, 5], [22, 2], [14, 15]]) {
+      ctx.fillRect(x - 1, y, 2, 2);
+    }
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  private generatePestsTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Little beetles crawling over the plant
+    const bugs = [[10, 11, 0.5], [21, 15, -0.8], [14, 22, 1.9]];
+    for (const [x, y, angle] of bugs) {
+      ctx.save();
+      ctx.translate(x, y);
+      ctx.rotate(angle);
+      ctx.fillStyle = '#2b2118';
       ctx.beginPath();
-      ctx.ellipse(21, 8, 5, 10, 0.3, 0, Math.PI * 2);
+      ctx.ellipse(0, 0, 2.5, 1.8, 0, 0, Math.PI * 2);
       ctx.fill();
-      
-      // Carrot indicator
-      ctx.fillStyle = '#ff6b35';
+      ctx.fillStyle = '#8a2b1e';
       ctx.beginPath();
-      ctx.ellipse(16, 20, 3, 5, 0, 0, Math.PI * 2);
+      ctx.ellipse(0.5, 0, 1.8, 1.3, 0, 0, Math.PI * 2);
       ctx.fill();
+      ctx.restore();
+    }
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  private generateSprinklerTexture(sprinkler: SprinklerDefinition): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Base plate
+    ctx.fillStyle = '#4a4a4a';
+    ctx.beginPath();
+    ctx.ellipse(16, 24, 9, 4, 0, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Body in the tier's color
+    ctx.fillStyle = sprinkler.color;
+    ctx.fillRect(13, 11, 6, 13);
+    ctx.strokeStyle = '#2b2b2b';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(13.5, 11.5, 5, 12);
+    
+    // Nozzle head, with one arm per covered direction
+    ctx.fillStyle = '#d8d8d8';
+    ctx.beginPath();
+    ctx.arc(16, 10, 3.5, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = sprinkler.color;
+    const arms = sprinkler.pattern === 'square' ? 8 : 4;
+    for (let i = 0; i < arms; i++) {
+      const angle = (i / arms) * Math.PI * 2;
+      ctx.fillRect(16 + Math.cos(angle) * 5 - 1, 10 + Math.sin(angle) * 3 - 1, 2, 2);
     }
     
     const imageData = ctx.getImageData(0, 0, size, size);
     return Texture.fromImageData(gl, imageData);
   }
   
+  private generateChestTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Shadow
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.3)';
+    ctx.beginPath();
+    ctx.ellipse(16, 27, 12, 3, 0, 0, Math.PI * 2);
+    ctx.fill();
+    
+    // Wooden body and lid
+    ctx.fillStyle = '#8b5a2b';
+    ctx.fillRect(5, 12, 22, 14);
+    ctx.fillStyle = '#a0522d';
+    ctx.fillRect(5, 7, 22, 6);
+    ctx.strokeStyle = '#4a2f14';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(5.5, 7.5, 21, 18);
+    ctx.beginPath();
+    ctx.moveTo(5, 13.5);
+    ctx.lineTo(27, 13.5);
+    ctx.stroke();
+    
+    // Iron bands and latch
+    ctx.fillStyle = '#6b6b6b';
+    ctx.fillRect(9, 7, 2, 19);
+    ctx.fillRect(21, 7, 2, 19);
+    ctx.fillStyle = '#d4af37';
+    ctx.fillRect(14, 12, 4, 5);
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
   private generateWateredDirtTexture(): Texture {
     const gl = this.renderer.getGL();
     const size = 32;
@@ -767,7 +1447,7 @@ export class Game {
     return Texture.fromImageData(gl, imageData);
   }
   
-  private generateCarrotItemTexture(): Texture {
+  private generateProduceItemTexture(sprite: CropSprite): Texture {
     const gl = this.renderer.getGL();
     const size = 16;
     const canvas = document.createElement('canvas');
@@ -775,21 +1455,56 @@ export class Game {
     canvas.height = size;
     const ctx = canvas.getContext('2d')!;
     
-    // Carrot body
-    ctx.fillStyle = '#ff6b35';
-    ctx.beginPath();
-    ctx.moveTo(8, 4);
-    ctx.lineTo(11, 12);
-    ctx.lineTo(8, 14);
-    ctx.lineTo(5, 12);
-    ctx.closePath();
-    ctx.fill();
-    
-    // Carrot top
-    ctx.fillStyle = '#27ae60';
-    ctx.fillRect(6, 2, 1, 3);
-    ctx.fillRect(8, 2, 1, 3);
-    ctx.fillRect(10, 2, 1, 3);
+    ctx.fillStyle = sprite.produceColor || '#ff6b35';
+    switch (sprite.produceShape) {
+      case 'round':
+        ctx.beginPath();
+        ctx.ellipse(8, 9, 5, 4, 0.2, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'fruit':
+        ctx.beginPath();
+        ctx.arc(8, 9, 5, 0, Math.PI * 2);
+        ctx.fill();
+        
+        // Stalk
+        ctx.fillStyle = sprite.leafColor;
+        ctx.fillRect(7, 3, 3, 2);
+        break;
+      case 'pod':
+        ctx.beginPath();
+        ctx.ellipse(8, 8, 2.5, 6, 0.5, 0, Math.PI * 2);
+        ctx.fill();
+        break;
+      case 'grain':
+        // Bundle of stalks with the ears on top
+        ctx.fillStyle = sprite.stemColor;
+        ctx.fillRect(6, 7, 1, 8);
+        ctx.fillRect(8, 6, 1, 9);
+        ctx.fillRect(10, 7, 1, 8);
+        ctx.fillStyle = sprite.produceColor || '#e8c766';
+        ctx.fillRect(5, 2, 3, 5);
+        ctx.fillRect(7, 1, 3, 5);
+        ctx.fillRect(9, 2, 3, 5);
+        break;
+      case 'root':
+      default:
+        // Root body
+        ctx.beginPath();
+        ctx.moveTo(8, 4);
+        ctx.lineTo(11, 12);
+        ctx.lineTo(8, 14);
+        ctx.lineTo(5, 12);
+        ctx.closePath();
+        ctx.fill();
+        
+        // Leafy top
+        ctx.fillStyle = sprite.leafColor;
+        ctx.fillRect(6, 2, 1, 3);
+        ctx.fillRect(8, 2, 1, 3);
+        ctx.fillRect(10, 2, 1, 3);
+        break;
+    }
     
     const imageData = ctx.getImageData(0, 0, size, size);
     return Texture.fromImageData(gl, imageData);
@@ -1160,12 +1875,117 @@ export class Game {
       ctx.fillRect(i * 16 + 4, 0, 8, 20);
     }
     
-    // Sign
-    ctx.fillStyle = '#FFD700';
-    ctx.fillRect(20, 22, 24, 8);
-    ctx.fillStyle = '#000';
-    ctx.font = '6px Arial';
-    ctx.fillText('SHOP', 26, 28);
+    // Sign
+    ctx.fillStyle = '#FFD700';
+    ctx.fillRect(20, 22, 24, 8);
+    ctx.fillStyle = '#000';
+    ctx.font = '6px Arial';
+    ctx.fillText('SHOP', 26, 28);
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  // Spans the greenhouse's whole footprint, with its door in the middle of the bottom row
+  private generateGreenhouseTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const tile = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = TileMap.GREENHOUSE_WIDTH * tile;
+    canvas.height = TileMap.GREENHOUSE_HEIGHT * tile;
+    const ctx = canvas.getContext('2d')!;
+    const width = canvas.width;
+    const height = canvas.height;
+    
+    // Glass walls on a low brick base
+    ctx.fillStyle = '#9c5a3c';
+    ctx.fillRect(4, height - 20, width - 8, 20);
+    ctx.fillStyle = 'rgba(170, 225, 235, 0.85)';
+    ctx.fillRect(4, 34, width - 8, height - 54);
+    
+    // Pitched glass roof
+    ctx.fillStyle = 'rgba(200, 240, 245, 0.9)';
+    ctx.beginPath();
+    ctx.moveTo(0, 36);
+    ctx.lineTo(width / 2, 4);
+    ctx.lineTo(width, 36);
+    ctx.closePath();
+    ctx.fill();
+    
+    // White frame over the panes
+    ctx.strokeStyle = '#f4f4f0';
+    ctx.lineWidth = 2;
+    ctx.beginPath();
+    ctx.moveTo(0, 36);
+    ctx.lineTo(width / 2, 4);
+    ctx.lineTo(width, 36);
+    for (let x = 4; x <= width - 4; x += 24) {
+      ctx.moveTo(x, 34);
+      ctx.lineTo(x, height - 20);
+    }
+    ctx.moveTo(4, 34);
+    ctx.lineTo(width - 4, 34);
+    ctx.moveTo(4, height / 2 + 8);
+    ctx.lineTo(width - 4, height / 2 + 8);
+    ctx.stroke();
+    
+    // Plants showing through the glass
+    ctx.fillStyle = 'rgba(60, 140, 60, 0.7)';
+    for (let x = 14; x < width - 14; x += 18) {
+      ctx.beginPath();
+      ctx.ellipse(x, height - 26, 6, 5, 0, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    
+    // Door in the middle of the bottom row
+    const doorX = Math.floor(TileMap.GREENHOUSE_WIDTH / 2) * tile;
+    ctx.fillStyle = '#6b4a2b';
+    ctx.fillRect(doorX + 6, height - 28, tile - 12, 28);
+    ctx.fillStyle = 'rgba(170, 225, 235, 0.9)';
+    ctx.fillRect(doorX + 9, height - 25, tile - 18, 10);
+    ctx.fillStyle = '#e8c547';
+    ctx.fillRect(doorX + tile - 11, height - 12, 2, 2);
+    
+    const imageData = ctx.getImageData(0, 0, width, height);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  private generateWallTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Wooden planks
+    ctx.fillStyle = '#5a3d24';
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = '#4a3120';
+    for (let y = 0; y < size; y += 8) {
+      ctx.fillRect(0, y, size, 1);
+      ctx.fillRect((y / 8) % 2 === 0 ? 10 : 24, y, 1, 8);
+    }
+    
+    const imageData = ctx.getImageData(0, 0, size, size);
+    return Texture.fromImageData(gl, imageData);
+  }
+  
+  private generateDoorwayTexture(): Texture {
+    const gl = this.renderer.getGL();
+    const size = 32;
+    const canvas = document.createElement('canvas');
+    canvas.width = size;
+    canvas.height = size;
+    const ctx = canvas.getContext('2d')!;
+    
+    // Daylight through the open door, with a mat in front
+    ctx.fillStyle = '#5a3d24';
+    ctx.fillRect(0, 0, size, size);
+    ctx.fillStyle = '#cfe8b0';
+    ctx.fillRect(4, 0, size - 8, size);
+    ctx.fillStyle = '#a0522d';
+    ctx.fillRect(6, size - 10, size - 12, 8);
     
     const imageData = ctx.getImageData(0, 0, size, size);
     return Texture.fromImageData(gl, imageData);
@@ -1272,6 +2092,9 @@ export class Game {
   };
   
   private update(deltaTime: number): void {
+    // Advance the simulation clock; world timers use the scaled game delta
+    const gameDeltaTime = this.gameClock.update(deltaTime);
+    this.playTime += deltaTime;
     
     // Update mouse world position
     const mousePos = this.input.getMousePosition();
@@ -1299,6 +2122,7 @@ export class Game {
     const movement = this.input.getMovementVector();
     const isSprinting = this.input.isKeyDown(Keys.Shift);
     this.player.update(deltaTime, movement, this.tileMap, isSprinting);
+    this.tileMap.setPlayerBounds(this.player.getBounds());
     
     // Play footstep sounds when moving
     if (movement.length() > 0 && !this.player.isAnimatingTool()) {
@@ -1312,11 +2136,17 @@ export class Game {
       this.lastFootstepTime = this.footstepInterval; // Reset so next step plays immediately
     }
     
+    // Walking onto a door takes the player through to the map on the other side
+    const door = this.tileMap.getDoor(playerPos.x, playerPos.y);
+    if (door) {
+      this.travelTo(door);
+    }
+    
     // Clear current tile actions
     this.currentTileActions = [];
     
     // Check for NPC interactions
-    if (this.shopkeeper.isNearPlayer(this.player.getPosition())) {
+    if (this.isNearNPC(this.shopkeeper)) {
       const npcWorldPos = this.shopkeeper.position;
       this.currentTileActions.push({
         position: new Vec2(npcWorldPos.x, npcWorldPos.y - 16),
@@ -1329,7 +2159,7 @@ export class Game {
     }
     
     // Check for blacksmith interactions
-    if (this.blacksmithNPC.isNearPlayer(this.player.getPosition())) {
+    if (this.isNearNPC(this.blacksmithNPC)) {
       const npcWorldPos = this.blacksmithNPC.position;
       this.currentTileActions.push({
         position: new Vec2(npcWorldPos.x, npcWorldPos.y - 16),
@@ -1341,6 +2171,17 @@ export class Game {
       });
     }
     
+    // Chests and anything else the action system tracks, when no NPC is closer
+    this.actionSystem.update(playerPos, this.player.getFacing(), deltaTime);
+    const indicator = this.actionSystem.getCurrentIndicator();
+    if (indicator?.isVisible() && !this.isNearNPC(this.shopkeeper) && !this.isNearNPC(this.blacksmithNPC)) {
+      this.currentTileActions.push({
+        position: new Vec2(indicator.position.x, indicator.position.y),
+        key: 'F'
+      });
+    }
+    this.updateOpenChest(playerPos);
+    
     // Check for tile interactions at mouse position
     if (this.hoveredTile) {
       const tile = this.tileMap.getTileAt(this.hoveredTile.x, this.hoveredTile.y);
@@ -1357,21 +2198,45 @@ export class Game {
           case TileType.Grass:
           case TileType.Dirt:
             if (selectedItem.toolType === 'hoe') showAction = true;
+            else if (selectedItem.toolType === 'sprinkler') showAction = true;
+            else if (selectedItem.toolType === 'chest') showAction = true;
             break;
           case TileType.TilledDirt:
-            if (!tile.planted && selectedItem.toolType === 'seeds') showAction = true;
+            if (!tile.planted && selectedItem.toolType === 'seeds') {
+              // Only hint at planting when the seed can go in this season
+              const crop = cropRegistry.getBySeedItem(selectedItem.id);
+              showAction = !!crop && this.tileMap.canGrow(crop);
+            }
             else if (selectedItem.toolType === 'wateringCan') showAction = true;
+            else if (selectedItem.toolType === 'fertilizer' && !tile.fertilizer) showAction = true;
+            else if (selectedItem.toolType === 'repellent' && !this.tileMap.isRepelled(tile)) showAction = true;
+            else if (selectedItem.toolType === 'sprinkler' && !tile.planted) showAction = true;
+            else if (selectedItem.toolType === 'chest' && !tile.planted) showAction = true;
             break;
           case TileType.PlantedDirt:
             if (selectedItem.toolType === 'wateringCan' && !tile.watered) showAction = true;
+            else if (selectedItem.toolType === 'fertilizer' && !tile.fertilizer) showAction = true;
+            else if (selectedItem.toolType === 'repellent' && !this.tileMap.isRepelled(tile)) showAction = true;
             else if (selectedItem.toolType === 'scythe' && tile.growth && tile.growth >= 1.0) showAction = true;
             break;
+          case TileType.DeadPlant:
+          case TileType.Weeds:
+            if (selectedItem.toolType === 'scythe') showAction = true;
+            break;
           case TileType.Tree:
             if (selectedItem.toolType === 'axe') showAction = true;
             break;
           case TileType.TreeStump:
             if (selectedItem.toolType === 'axe') showAction = true;
             break;
+          case TileType.Sprinkler:
+          case TileType.GiantCrop:
+            if (selectedItem.toolType === 'axe') showAction = true;
+            break;
+          case TileType.Chest:
+            // Only empty chests can be picked up
+            if (selectedItem.toolType === 'axe' && tile.chest?.every(row => row.every(slot => !slot.item))) showAction = true;
+            break;
         }
         
         if (showAction) {
@@ -1406,6 +2271,12 @@ export class Game {
         anyClosed = true;
       }
       
+      // Close saved farms panel if open
+      if (this.saveSlotsUI.isOpen()) {
+        this.saveSlotsUI.hide();
+        anyClosed = true;
+      }
+      
       // Play close sound if any menu was closed
       if (anyClosed) {
         this.audioSystem.playSound('uiClose', 0.5);
@@ -1414,7 +2285,7 @@ export class Game {
     
     // Handle E key - check NPC interaction first, then inventory
     if (this.input.isKeyPressed(Keys.E)) {
-      if (this.shopkeeper.isNearPlayer(this.player.getPosition())) {
+      if (this.isNearNPC(this.shopkeeper)) {
         // Show dialogue
         console.log(`${this.shopkeeper.name}: ${this.shopkeeper.dialogue[0]}`);
       } else {
@@ -1430,7 +2301,7 @@ export class Game {
     
     // Handle F key for shop and blacksmith
     if (this.input.isKeyPressed(Keys.F)) {
-      if (this.shopkeeper.isNearPlayer(this.player.getPosition())) {
+      if (this.isNearNPC(this.shopkeeper)) {
         if (this.shop.isShopOpen()) {
           this.shop.close();
           this.audioSystem.playSound('uiClose', 0.5);
@@ -1438,7 +2309,7 @@ export class Game {
           this.shop.open();
           this.audioSystem.playSound('uiOpen', 0.5);
         }
-      } else if (this.blacksmithNPC.isNearPlayer(this.player.getPosition())) {
+      } else if (this.isNearNPC(this.blacksmithNPC)) {
         if (this.blacksmith.isBlacksmithOpen()) {
           this.blacksmith.close();
           this.audioSystem.playSound('uiClose', 0.5);
@@ -1446,64 +2317,44 @@ export class Game {
           this.blacksmith.open();
           this.audioSystem.playSound('uiOpen', 0.5);
         }
+      } else {
+        this.actionSystem.handleKeyPress(Keys.F);
       }
     }
     
+    // Handle clock controls: P pauses, -/= change simulation speed
+    if (this.input.isKeyPressed(Keys.P)) {
+      this.gameClock.togglePause();
+      this.clockPausedByVisibility = false;
+    }
+    if (this.input.isKeyPressed(Keys.Minus) || this.input.isKeyPressed(Keys.Equal)) {
+      const currentIndex = this.clockSpeeds.indexOf(this.gameClock.getSpeed());
+      const step = this.input.isKeyPressed(Keys.Equal) ? 1 : -1;
+      const nextIndex = Math.max(0, Math.min(this.clockSpeeds.length - 1, (currentIndex === -1 ? 1 : currentIndex) + step));
+      this.gameClock.setSpeed(this.clockSpeeds[nextIndex]);
+    }
+    
     // Handle tool interactions (only if inventory is closed)
     if (!this.inventorySystem.isInventoryOpen() && this.input.isKeyPressed(Keys.Space)) {
       const selectedItem = this.inventorySystem.getSelectedHotbarItem();
       if (selectedItem) {
-        if ((selectedItem.type === 'tool' || selectedItem.type === 'seed') && selectedItem.toolType) {
-          this.player.interact(this.tileMap, this.itemDropManager, this.audioSystem, selectedItem.toolType);
+        if (this.isUsableItem(selectedItem)) {
+          // Use it on the tile the player faces
+          const playerPos = this.player.getPosition();
+          let targetX = playerPos.x;
+          let targetY = playerPos.y;
+          const interactDistance = 32;
           
-          // Consume seed if it was planted
-          if (selectedItem.type === 'seed' && (selectedItem.toolType === 'seeds' || selectedItem.toolType === 'treeSeeds')) {
-            // Check if planting was successful by checking the tile
-            const playerPos = this.player.getPosition();
-            const facing = this.player.getFacing();
-            let targetX = playerPos.x;
-            let targetY = playerPos.y;
-            const interactDistance = 32;
-            
-            switch (facing) {
-              case 'up': targetY -= interactDistance; break;
-              case 'down': targetY += interactDistance; break;
-              case 'left': targetX -= interactDistance; break;
-              case 'right': targetX += interactDistance; break;
-            }
-            
-            const tileX = Math.floor(targetX / 32);
-            const tileY = Math.floor(targetY / 32);
-            const tileBeforePlanting = this.tileMap.getTileAt(tileX, tileY);
-            const wasGrass = tileBeforePlanting?.type === TileType.Grass;
-            const wasTilledNotPlanted = tileBeforePlanting?.type === TileType.TilledDirt && !tileBeforePlanting.planted;
-            
-            // Re-fetch tile after planting attempt
-            const tileAfterPlanting = this.tileMap.getTileAt(tileX, tileY);
-            
-            // Check if planting was successful
-            let checkSuccess = false;
-            if (selectedItem.toolType === 'seeds') {
-              // For carrot seeds: check if tile went from tilled (not planted) to planted
-              checkSuccess = wasTilledNotPlanted && tileAfterPlanting?.planted === true;
-            } else if (selectedItem.toolType === 'treeSeeds') {
-              // For tree seeds: check if tile went from grass to tree stump
-              checkSuccess = wasGrass && tileAfterPlanting?.type === TileType.TreeStump;
-            }
-            
-            if (checkSuccess) {
-              // Seed was planted, remove one from inventory
-              if (selectedItem.quantity > 1) {
-                selectedItem.quantity--;
-              } else {
-                // Remove the item completely
-                const hotbar = this.inventorySystem.getHotbar();
-                const selectedIndex = this.inventorySystem.getSelectedHotbarIndex();
-                hotbar[selectedIndex].item = null;
-              }
-              this.inventoryUI.updateHotbar();
-            }
+          switch (this.player.getFacing()) {
+            case 'up': targetY -= interactDistance; break;
+            case 'down': targetY += interactDistance; break;
+            case 'left': targetX -= interactDistance; break;
+            case 'right': targetX += interactDistance; break;
           }
+          
+          this.useItemOnTile(selectedItem, Math.floor(targetX / 32), Math.floor(targetY / 32), () => {
+            this.player.interact(this.tileMap, this.itemDropManager, this.audioSystem, selectedItem.toolType, selectedItem);
+          });
         }
       }
     }
@@ -1511,60 +2362,28 @@ export class Game {
     // Handle mouse click for tool usage
     if (this.input.isMouseButtonPressed(0) && this.hoveredTile && !this.shop.isShopOpen() && !this.inventorySystem.isInventoryOpen()) {
       const selectedItem = this.inventorySystem.getSelectedHotbarItem();
-      if (selectedItem && ((selectedItem.type === 'tool' || selectedItem.type === 'seed') && selectedItem.toolType)) {
+      if (selectedItem && (this.isUsableItem(selectedItem))) {
         // Use tool at mouse position
         const worldX = this.hoveredTile.x * tileSize + tileSize/2;
         const worldY = this.hoveredTile.y * tileSize + tileSize/2;
         
-        // Consume seed if it was planted
-        if (selectedItem.type === 'seed' && (selectedItem.toolType === 'seeds' || selectedItem.toolType === 'treeSeeds')) {
-          const tileX = Math.floor(worldX / 32);
-          const tileY = Math.floor(worldY / 32);
-          const tileBeforePlanting = this.tileMap.getTileAt(tileX, tileY);
-          const wasGrass = tileBeforePlanting?.type === TileType.Grass;
-          const wasTilledNotPlanted = tileBeforePlanting?.type === TileType.TilledDirt && !tileBeforePlanting.planted;
-          
-          // Use tool
-          this.player.interactAt(worldX, worldY, this.tileMap, this.itemDropManager, this.audioSystem, selectedItem.toolType);
-          
-          // Re-fetch tile after planting attempt
-          const tileAfterPlanting = this.tileMap.getTileAt(tileX, tileY);
-          
-          // Check if planting was successful
-          let checkSuccess = false;
-          if (selectedItem.toolType === 'seeds') {
-            // For carrot seeds: check if tile went from tilled (not planted) to planted
-            checkSuccess = wasTilledNotPlanted && tileAfterPlanting?.planted === true;
-          } else if (selectedItem.toolType === 'treeSeeds') {
-            // For tree seeds: check if tile went from grass to tree stump
-            checkSuccess = wasGrass && tileAfterPlanting?.type === TileType.TreeStump;
-          }
-          
-          if (checkSuccess) {
-            // Seed was planted, remove one from inventory
-            if (selectedItem.quantity > 1) {
-              selectedItem.quantity--;
-            } else {
-              // Remove the item completely
-              const hotbar = this.inventorySystem.getHotbar();
-              const selectedIndex = this.inventorySystem.getSelectedHotbarIndex();
-              hotbar[selectedIndex].item = null;
-            }
-            this.inventoryUI.updateHotbar();
-          }
-        } else {
-          // For non-seed tools, just use them
-          this.player.interactAt(worldX, worldY, this.tileMap, this.itemDropManager, this.audioSystem, selectedItem.toolType);
-        }
+        this.useItemOnTile(selectedItem, this.hoveredTile.x, this.hoveredTile.y, () => {
+          this.player.interactAt(worldX, worldY, this.tileMap, this.itemDropManager, this.audioSystem, selectedItem.toolType, selectedItem);
+        });
       }
     }
     
+    // A stack still in hand once the inventory is closed had no room to go back to
+    if (!this.inventorySystem.isInventoryOpen() && this.inventorySystem.getDraggedItem()) {
+      this.dropDraggedItem();
+    }
+    
     // Check for item pickups
     this.player.collectItems(this.itemDropManager, this.audioSystem, this.inventorySystem);
     
     // Shop interaction is now handled through ActionSystem
     // Auto-close shop if player walks away
-    if (this.shop.isShopOpen() && !this.shopkeeper.isNearPlayer(this.player.getPosition())) {
+    if (this.shop.isShopOpen() && !this.isNearNPC(this.shopkeeper)) {
       this.shop.close();
     }
     
@@ -1575,82 +2394,33 @@ export class Game {
     
     // Handle shop transactions when open
     if (this.shop.isShopOpen()) {
-      // Buy seeds with 1
-      if (this.input.isKeyPressed('Digit1')) {
-        if (this.player.spendMoney(10)) {
-          this.inventorySystem.addItem({
-            id: 'carrot_seeds',
-            name: 'Carrot Seeds',
-            icon: '🥕',
-            quantity: 5,
-            stackable: true,
-            type: 'seed',
-            toolType: 'seeds'
-          });
-          console.log('Bought 5 seeds for 10 coins!');
-          this.audioSystem.playSound('purchase', 0.6);
-          this.inventoryUI.updateHotbar();
-        }
-      }
-      // Sell carrots with 2
-      if (this.input.isKeyPressed('Digit2')) {
-        if (this.inventorySystem.removeItem('carrot', 1)) {
-          this.player.addMoney(15);
-          console.log('Sold 1 carrot for 15 coins!');
-          this.audioSystem.playSound('coin', 0.5);
-          this.inventoryUI.updateHotbar();
+      // Number keys buy or sell the matching shop entry
+      const entries = this.getShopEntries();
+      for (let i = 0; i < Math.min(entries.length, 9); i++) {
+        if (this.input.isKeyPressed(`Digit${i + 1}`)) {
+          if (entries[i].action === 'buy') {
+            this.handleShopBuy(entries[i].item.id);
+          } else {
+            this.handleShopSell(entries[i].item.id, entries[i].quality);
+          }
+          break;
         }
       }
       // Skip tool selection while shop is open
     } else if (this.blacksmith.isBlacksmithOpen()) {
-      // Handle blacksmith transactions
-      // Sell wood with 1
+      // Handle blacksmith transactions: sell wood with 1, buy iron and gold ingots with 2 and 3,
+      // repair worn tools with 4
       if (this.input.isKeyPressed('Digit1')) {
-        const woodCount = this.inventorySystem.getItemCount('wood');
-        if (woodCount > 0) {
-          this.inventorySystem.removeItem('wood', 1);
-          this.player.addMoney(5);
-          console.log('Sold 1 wood for 5 coins!');
-          this.audioSystem.playSound('coin', 0.4);
-          this.inventoryUI.updateHotbar();
-          this.updateBlacksmithUI();
-        }
+        this.handleBlacksmithSell('wood');
       }
-      // Buy iron ingot with 2
       if (this.input.isKeyPressed('Digit2')) {
-        if (this.player.getMoney() >= 25) {
-          this.player.spendMoney(25);
-          this.inventorySystem.addItem({
-            id: 'iron_ingot',
-            name: 'Iron Ingot',
-            icon: '⚙️',
-            quantity: 1,
-            stackable: true,
-            type: 'material'
-          });
-          console.log('Bought 1 iron ingot for 25 coins!');
-          this.audioSystem.playSound('purchase', 0.5);
-          this.inventoryUI.updateHotbar();
-          this.updateBlacksmithUI();
-        }
+        this.handleBlacksmithBuy('iron_ingot');
       }
-      // Buy gold ingot with 3
       if (this.input.isKeyPressed('Digit3')) {
-        if (this.player.getMoney() >= 100) {
-          this.player.spendMoney(100);
-          this.inventorySystem.addItem({
-            id: 'gold_ingot',
-            name: 'Gold Ingot',
-            icon: '🟨',
-            quantity: 1,
-            stackable: true,
-            type: 'material'
-          });
-          console.log('Bought 1 gold ingot for 100 coins!');
-          this.audioSystem.playSound('purchase', 0.6);
-          this.inventoryUI.updateHotbar();
-          this.updateBlacksmithUI();
-        }
+        this.handleBlacksmithBuy('gold_ingot');
+      }
+      if (this.input.isKeyPressed('Digit4')) {
+        this.handleBlacksmithRepair();
       }
       // Skip tool selection while blacksmith is open
     } else if (!this.inventorySystem.isInventoryOpen()) {
@@ -1665,11 +2435,15 @@ export class Game {
     }
     } // End of else block (shop not open)
     
-    // Update crops
-    this.tileMap.updateCrops(deltaTime);
+    // Stream chunks in around the player and unload distant ones
+    this.tileMap.updateStreaming(playerPos.x, playerPos.y);
     
-    // Update item drops
-    this.itemDropManager.update(deltaTime);
+    // Update crops on every map, applying overnight growth for any days that started this frame
+    const daysElapsed = this.calendar.update();
+    for (const map of this.maps.values()) {
+      map.tileMap.updateCrops(gameDeltaTime, daysElapsed);
+      map.itemDrops.update(deltaTime);
+    }
     
     // Update NPC
     this.shopkeeper.update(deltaTime);
@@ -1692,6 +2466,28 @@ export class Game {
       posElement.textContent = `${Math.floor(uiPlayerPos.x)}, ${Math.floor(uiPlayerPos.y)}`;
     }
     
+    // Update date and time display
+    const dateElement = document.getElementById('date');
+    if (dateElement) {
+      dateElement.textContent = this.calendar.formatDate();
+    }
+    const timeElement = document.getElementById('time');
+    if (timeElement) {
+      timeElement.textContent = this.calendar.formatTime();
+    }
+    
+    // Update world seed display
+    const seedElement = document.getElementById('seed');
+    if (seedElement) {
+      seedElement.textContent = this.tileMap.getSeed().toString();
+    }
+    
+    // Update clock status display
+    const clockElement = document.getElementById('clockStatus');
+    if (clockElement) {
+      clockElement.textContent = this.gameClock.isPaused() ? 'Paused (P)' : `${this.gameClock.getSpeed()}x`;
+    }
+    
     // Hide old inventory display
     const inventorySlotsElement = document.getElementById('inventorySlots');
     if (inventorySlotsElement) {
@@ -1704,7 +2500,7 @@ export class Game {
       let statusText = `Money: ${this.player.getMoney()} coins`;
       
       // Show shop prompt if near
-      if (this.shopkeeper.isNearPlayer(this.player.getPosition())) {
+      if (this.isNearNPC(this.shopkeeper)) {
         statusText += ' | Press F to open shop';
       }
       
@@ -1747,16 +2543,44 @@ export class Game {
         
         // Add a single event listener that persists
         shopElement.addEventListener('click', (e) => {
-          const target = e.target as HTMLElement;
-          if (target.id === 'buy-seeds-btn') {
-            this.handleShopBuy();
-          } else if (target.id === 'sell-carrot-btn') {
-            this.handleShopSell();
+          const target = (e.target as HTMLElement).closest('button');
+          const itemId = target?.dataset.item;
+          if (!itemId) return;
+          if (target.dataset.action === 'buy') {
+            this.handleShopBuy(itemId);
+          } else if (target.dataset.action === 'sell') {
+            this.handleShopSell(itemId, Number(target.dataset.quality) as CropQuality);
           }
         });
       }
       
-      const carrots = this.inventorySystem.getItemCount('carrot');
+      const buttons = this.getShopEntries().map(({ action, item, quality }, index) => {
+        const buying = action === 'buy';
+        const seedCrop = cropRegistry.getBySeedItem(item.id);
+        const seasons = seedCrop ? ` (${cropRegistry.formatSeasons(seedCrop)})` : '';
+        const tier = quality !== CropQuality.Normal ? `${QUALITY_NAMES[quality]} ` : '';
+        const label = buying
+          ? `Buy ${item.bundleSize || 1} ${item.name}${seasons} - ${item.buyPrice} coins`
+          : `Sell 1 ${tier}${item.name} (have ${this.inventorySystem.getItemCount(item.id, quality)}) - ${this.shop.sellItem(item.id, 1, quality)} coins`;
+        const color = buying ? '46, 204, 113' : '231, 76, 60';
+        const border = buying ? '#27ae60' : '#c0392b';
+        return `
+            <button data-action="${action}" data-item="${item.id}" data-quality="${quality}" style="
+              display: block;
+              width: 100%;
+              padding: 12px;
+              margin: 8px 0;
+              background: rgba(${color}, 0.8);
+              color: white;
+              border: 2px solid ${border};
+              border-radius: 6px;
+              font-size: 16px;
+              cursor: pointer;
+              transition: all 0.2s;
+            " onmouseover="this.style.background='rgba(${color}, 1)'" onmouseout="this.style.background='rgba(${color}, 0.8)'">
+              ${index < 9 ? `[${index + 1}] ` : ''}${label}
+            </button>`;
+      }).join('');
       
       // Only update the dynamic content, not the entire innerHTML
       if (!shopElement.querySelector('.shop-content')) {
@@ -1780,39 +2604,8 @@ export class Game {
           <h2>Emma's Seeds & Produce</h2>
           <div style="margin: 20px 0;">
             <p>Your money: ${this.player.getMoney()} coins</p>
-            <p>Your carrots: ${carrots}</p>
           </div>
-          <div style="margin: 20px 0; text-align: left;">
-            <button id="buy-seeds-btn" style="
-              display: block;
-              width: 100%;
-              padding: 12px;
-              margin: 8px 0;
-              background: rgba(46, 204, 113, 0.8);
-              color: white;
-              border: 2px solid #27ae60;
-              border-radius: 6px;
-              font-size: 16px;
-              cursor: pointer;
-              transition: all 0.2s;
-            " onmouseover="this.style.background='rgba(46, 204, 113, 1)'" onmouseout="this.style.background='rgba(46, 204, 113, 0.8)'">
-              [1] Buy 5 seeds - 10 coins
-            </button>
-            <button id="sell-carrot-btn" style="
-              display: block;
-              width: 100%;
-              padding: 12px;
-              margin: 8px 0;
-              background: rgba(231, 76, 60, 0.8);
-              color: white;
-              border: 2px solid #c0392b;
-              border-radius: 6px;
-              font-size: 16px;
-              cursor: pointer;
-              transition: all 0.2s;
-            " onmouseover="this.style.background='rgba(231, 76, 60, 1)'" onmouseout="this.style.background='rgba(231, 76, 60, 0.8)'">
-              [2] Sell 1 carrot - 15 coins
-            </button>
+          <div style="margin: 20px 0; text-align: left;">${buttons}
           </div>
           <p style="margin-top: 20px; font-size: 14px;">Press F to close</p>
         `;
@@ -1850,16 +2643,20 @@ export class Game {
         blacksmithElement.addEventListener('click', (e) => {
           const target = e.target as HTMLElement;
           if (target.id === 'sell-wood-btn') {
-            this.handleBlacksmithSellWood();
+            this.handleBlacksmithSell('wood');
           } else if (target.id === 'buy-iron-btn') {
-            this.handleBlacksmithBuyIron();
+            this.handleBlacksmithBuy('iron_ingot');
           } else if (target.id === 'buy-gold-btn') {
-            this.handleBlacksmithBuyGold();
+            this.handleBlacksmithBuy('gold_ingot');
+          } else if (target.id === 'repair-tools-btn') {
+            this.handleBlacksmithRepair();
           }
         });
       }
       
       const woodCount = this.inventorySystem.getItemCount('wood');
+      const wornToolCount = this.inventorySystem.getWornItems().length;
+      const price = (itemId: string, field: 'buyPrice' | 'sellPrice') => this.blacksmith.getItem(itemId)?.[field] ?? 0;
       
       // Only update the dynamic content
       if (!blacksmithElement.querySelector('.blacksmith-content')) {
@@ -1899,7 +2696,7 @@ export class Game {
               cursor: pointer;
               transition: all 0.2s;
             " onmouseover="this.style.background='rgba(139, 69, 19, 1)'" onmouseout="this.style.background='rgba(139, 69, 19, 0.8)'">
-              [1] Sell Wood - 5 coins each
+              [1] Sell Wood - ${price('wood', 'sellPrice')} coins each
             </button>
             <button id="buy-iron-btn" style="
               display: block;
@@ -1914,7 +2711,7 @@ export class Game {
               cursor: pointer;
               transition: all 0.2s;
             " onmouseover="this.style.background='rgba(70, 70, 70, 1)'" onmouseout="this.style.background='rgba(70, 70, 70, 0.8)'">
-              [2] Buy Iron Ingot - 25 coins
+              [2] Buy Iron Ingot - ${price('iron_ingot', 'buyPrice')} coins
             </button>
             <button id="buy-gold-btn" style="
               display: block;
@@ -1929,7 +2726,22 @@ export class Game {
               cursor: pointer;
               transition: all 0.2s;
             " onmouseover="this.style.background='rgba(255, 215, 0, 1)'" onmouseout="this.style.background='rgba(255, 215, 0, 0.8)'">
-              [3] Buy Gold Ingot - 100 coins
+              [3] Buy Gold Ingot - ${price('gold_ingot', 'buyPrice')} coins
+            </button>
+            <button id="repair-tools-btn" style="
+              display: block;
+              width: 100%;
+              padding: 12px;
+              margin: 8px 0;
+              background: rgba(70, 70, 80, 0.8);
+              color: white;
+              border: 2px solid #A9A9A9;
+              border-radius: 6px;
+              font-size: 16px;
+              cursor: pointer;
+              transition: all 0.2s;
+            " onmouseover="this.style.background='rgba(70, 70, 80, 1)'" onmouseout="this.style.background='rgba(70, 70, 80, 0.8)'">
+              ${wornToolCount > 0 ? `[4] Repair ${wornToolCount} Tool(s) - ${this.blacksmith.getRepairPrice(wornToolCount)} coins` : '[4] Repair Tools - nothing to repair'}
             </button>
           </div>
           <p style="margin-top: 20px; font-size: 14px;">Press F to close</p>
@@ -1957,11 +2769,14 @@ export class Game {
     // Render tile highlighting
     this.renderTileHighlight();
     
-    // Render shop stall (behind NPC)
-    this.renderShop();
-    
-    // Render NPCs (with explicit texture binding)
-    this.renderNPC();
+    // The shop stall, forge and their keepers are on the farm
+    if (this.currentMap === this.farm) {
+      // Render shop stall (behind NPC)
+      this.renderShop();
+      
+      // Render NPCs (with explicit texture binding)
+      this.renderNPC();
+    }
     
     // Render item drops
     this.renderItemDrops();
@@ -1969,12 +2784,41 @@ export class Game {
     // Render player last
     this.renderPlayer();
     
+    // Tint the world by time of day
+    this.renderDaylightTint();
+    
     // Render tile action badges
     this.tileActionRenderer.renderTileActions(this.spriteBatch, this.currentTileActions);
     
     this.spriteBatch.end();
   }
   
+  private renderDaylightTint(): void {
+    const tint = this.calendar.getAmbientTint();
+    if (tint.a <= 0) return;
+    
+    const cameraPos = this.camera.getPosition();
+    const zoom = this.camera.getZoom();
+    
+    this.spriteBatch.flush();
+    this.whiteTexture.bind(0);
+    
+    const shader = this.spriteBatch.getSpriteShader();
+    shader.use();
+    shader.setUniform4f('u_color', tint.r, tint.g, tint.b, tint.a);
+    
+    // Cover the whole visible area
+    this.spriteBatch.drawTexturedQuad(
+      cameraPos.x,
+      cameraPos.y,
+      this.canvas.width / zoom + 4,
+      this.canvas.height / zoom + 4
+    );
+    
+    this.spriteBatch.flush();
+    shader.setUniform4f('u_color', 1, 1, 1, 1);
+  }
+  
   private renderTileHighlight(): void {
     if (!this.hoveredTile) return;
     
@@ -2011,6 +2855,24 @@ export class Game {
       }
     }
     
+    // Holding fertilizer or repellent tints the highlight in its color
+    if (selectedItem?.toolType === 'fertilizer') {
+      const fertilizer = fertilizerRegistry.get(selectedItem.id);
+      if (fertilizer) {
+        ({ r, g, b } = this.hexToRgb(fertilizer.color));
+      }
+    }
+    const repellent = selectedItem?.toolType === 'repellent' ? repellentRegistry.get(selectedItem.id) : undefined;
+    if (repellent) {
+      ({ r, g, b } = this.hexToRgb(repellent.color));
+    }
+    
+    this.renderSoilPreview(worldX, worldY, tileSize);
+    this.renderSprinklerCoverage(selectedItem);
+    if (repellent) {
+      this.renderRepellentCoverage(repellent);
+    }
+    
     // Draw highlight outline
     this.spriteBatch.flush();
     this.whiteTexture.bind(0);
@@ -2064,6 +2926,148 @@ export class Game {
     shader.setUniform4f('u_color', 1, 1, 1, 1);
   }
   
+  // Giant crops and buildings span several tiles, so each is drawn once from its anchor
+  // after the tiles underneath, including ones whose anchor is just off screen
+  private renderLargeObjects(startX: number, endX: number, startY: number, endY: number): void {
+    const tileSize = this.tileMap.getTileSize();
+    const drawn = new Set<string>();
+    
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const tile = this.tileMap.getTileAt(x, y);
+        if (!tile || tile.anchorX === undefined) continue;
+        
+        const anchor = this.tileMap.getObjectAnchor(x, y);
+        if (!anchor || drawn.has(`${anchor.tileX},${anchor.tileY}`)) continue;
+        drawn.add(`${anchor.tileX},${anchor.tileY}`);
+        
+        const texture = anchor.tile.type === TileType.GiantCrop
+          ? this.textures.get(`giant_${anchor.tile.cropType}`)
+          : (anchor.tile.type === TileType.Greenhouse ? this.textures.get('greenhouse') : undefined);
+        if (!texture) continue;
+        
+        const width = (anchor.tile.objectWidth ?? 1) * tileSize;
+        const height = (anchor.tile.objectHeight ?? 1) * tileSize;
+        this.spriteBatch.flush();
+        texture.bind(0);
+        this.spriteBatch.drawTexturedQuad(anchor.tileX * tileSize + width / 2, anchor.tileY * tileSize + height / 2, width, height);
+      }
+    }
+  }
+  
+  // Outlines the tiles a sprinkler waters: the one being placed, or the one under the cursor
+  private renderSprinklerCoverage(selectedItem: InventoryItem | null): void {
+    if (!this.hoveredTile) return;
+    const tile = this.tileMap.getTileAt(this.hoveredTile.x, this.hoveredTile.y);
+    const sprinklerId = tile?.type === TileType.Sprinkler ? tile.sprinkler : (selectedItem?.toolType === 'sprinkler' ? selectedItem.id : undefined);
+    const sprinkler = sprinklerId ? sprinklerRegistry.get(sprinklerId) : undefined;
+    if (!sprinkler) return;
+    
+    const tileSize = this.tileMap.getTileSize();
+    this.spriteBatch.flush();
+    this.whiteTexture.bind(0);
+    const shader = this.spriteBatch.getSpriteShader();
+    shader.use();
+    shader.setUniform4f('u_color', 0.3, 0.6, 1.0, 0.2);
+    for (const { dx, dy } of sprinklerRegistry.getCoverage(sprinkler)) {
+      const centerX = (this.hoveredTile.x + dx) * tileSize + tileSize / 2;
+      const centerY = (this.hoveredTile.y + dy) * tileSize + tileSize / 2;
+      this.spriteBatch.drawTexturedQuad(centerX, centerY, tileSize - 2, tileSize - 2);
+    }
+    this.spriteBatch.flush();
+    shader.setUniform4f('u_color', 1, 1, 1, 1);
+  }
+  
+  // Shades the patch of soil a repellent would cover if sprayed on the hovered tile
+  private renderRepellentCoverage(repellent: RepellentDefinition): void {
+    if (!this.hoveredTile) return;
+    
+    const tileSize = this.tileMap.getTileSize();
+    const color = this.hexToRgb(repellent.color);
+    this.spriteBatch.flush();
+    this.whiteTexture.bind(0);
+    const shader = this.spriteBatch.getSpriteShader();
+    shader.use();
+    shader.setUniform4f('u_color', color.r, color.g, color.b, 0.2);
+    for (let dy = -repellent.range; dy <= repellent.range; dy++) {
+      for (let dx = -repellent.range; dx <= repellent.range; dx++) {
+        const centerX = (this.hoveredTile.x + dx) * tileSize + tileSize / 2;
+        const centerY = (this.hoveredTile.y + dy) * tileSize + tileSize / 2;
+        this.spriteBatch.drawTexturedQuad(centerX, centerY, tileSize - 2, tileSize - 2);
+      }
+    }
+    this.spriteBatch.flush();
+    shader.setUniform4f('u_color', 1, 1, 1, 1);
+  }
+  
+  // Droplets over every covered tile for a moment after a spray
+  private renderSprinklerSpray(tileX: number, tileY: number, tile: Tile): void {
+    const sprinkler = tile.sprinkler ? sprinklerRegistry.get(tile.sprinkler) : undefined;
+    if (!sprinkler || tile.lastSprinkled === undefined) return;
+    
+    const sprayTime = 800;
+    const age = this.gameClock.now() - tile.lastSprinkled;
+    if (age < 0 || age >= sprayTime) return;
+    
+    const tileSize = this.tileMap.getTileSize();
+    this.spriteBatch.flush();
+    this.whiteTexture.bind(0);
+    const shader = this.spriteBatch.getSpriteShader();
+    shader.use();
+    shader.setUniform4f('u_color', 0.4, 0.7, 1.0, 0.8 * (1 - age / sprayTime));
+    
+    // Droplets fan outwards as the spray ages
+    const spread = 4 + (age / sprayTime) * 8;
+    for (const { dx, dy } of sprinklerRegistry.getCoverage(sprinkler)) {
+      const centerX = (tileX + dx) * tileSize + tileSize / 2;
+      const centerY = (tileY + dy) * tileSize + tileSize / 2;
+      this.spriteBatch.drawTexturedQuad(centerX - spread, centerY, 2, 3);
+      this.spriteBatch.drawTexturedQuad(centerX + spread, centerY - 2, 2, 3);
+      this.spriteBatch.drawTexturedQuad(centerX, centerY + spread - 4, 2, 3);
+    }
+    this.spriteBatch.flush();
+    shader.setUniform4f('u_color', 1, 1, 1, 1);
+  }
+  
+  // Shows the soil under the highlight: a wash and granules in the color of any
+  // fertilizer worked into it, and a bar for the fertility left
+  private renderSoilPreview(worldX: number, worldY: number, tileSize: number): void {
+    if (!this.hoveredTile) return;
+    const tile = this.tileMap.getTileAt(this.hoveredTile.x, this.hoveredTile.y);
+    if (!tile || (tile.type !== TileType.TilledDirt && tile.type !== TileType.PlantedDirt)) return;
+    
+    const centerX = worldX + tileSize / 2;
+    const centerY = worldY + tileSize / 2;
+    const fertilizer = tile.fertilizer ? fertilizerRegistry.get(tile.fertilizer) : undefined;
+    
+    if (fertilizer) {
+      this.spriteBatch.flush();
+      this.whiteTexture.bind(0);
+      const shader = this.spriteBatch.getSpriteShader();
+      shader.use();
+      const color = this.hexToRgb(fertilizer.color);
+      
+      shader.setUniform4f('u_color', color.r, color.g, color.b, 0.25);
+      this.spriteBatch.drawTexturedQuad(centerX, centerY, tileSize, tileSize);
+      this.spriteBatch.flush();
+      
+      shader.setUniform4f('u_color', color.r, color.g, color.b, 0.9);
+      const granules = [[-9, -6], [6, -9], [-3, 3], [9, 4], [-8, 9], [2, -2], [4, 10]];
+      for (const [dx, dy] of granules) {
+        this.spriteBatch.drawTexturedQuad(centerX + dx, centerY + dy, 2, 2);
+      }
+      this.spriteBatch.flush();
+      shader.setUniform4f('u_color', 1, 1, 1, 1);
+    }
+    
+    this.renderProgressBar(centerX, worldY + tileSize - 7, 20, 3, this.tileMap.getFertility(tile), { r: 0.55, g: 0.35, b: 0.15 });
+  }
+  
+  private hexToRgb(hex: string): { r: number, g: number, b: number } {
+    const value = parseInt(hex.slice(1), 16);
+    return { r: ((value >> 16) & 255) / 255, g: ((value >> 8) & 255) / 255, b: (value & 255) / 255 };
+  }
+  
   private renderTileMap(): void {
     const tileSize = this.tileMap.getTileSize();
     const cameraPos = this.camera.getPosition();
@@ -2071,10 +3075,10 @@ export class Game {
     
     // Calculate visible tile range with extra margin for water
     const margin = 1; // Extra tile margin
-    const startX = Math.max(0, Math.floor((cameraPos.x - this.canvas.width / (2 * zoom)) / tileSize) - margin);
-    const endX = Math.min(this.tileMap.getWidth(), Math.ceil((cameraPos.x + this.canvas.width / (2 * zoom)) / tileSize) + margin);
-    const startY = Math.max(0, Math.floor((cameraPos.y - this.canvas.height / (2 * zoom)) / tileSize) - margin);
-    const endY = Math.min(this.tileMap.getHeight(), Math.ceil((cameraPos.y + this.canvas.height / (2 * zoom)) / tileSize) + margin);
+    const startX = Math.floor((cameraPos.x - this.canvas.width / (2 * zoom)) / tileSize) - margin;
+    const endX = Math.ceil((cameraPos.x + this.canvas.width / (2 * zoom)) / tileSize) + margin;
+    const startY = Math.floor((cameraPos.y - this.canvas.height / (2 * zoom)) / tileSize) - margin;
+    const endY = Math.ceil((cameraPos.y + this.canvas.height / (2 * zoom)) / tileSize) + margin;
     
     // First pass: Render all water tiles with larger size
     const waterTexture = this.textures.get('water');
@@ -2148,6 +3152,10 @@ export class Game {
           case TileType.PlantedDirt:
             texture = tile.watered ? this.textures.get('wateredDirt')! : this.textures.get('tilledDirt')!;
             break;
+          case TileType.DeadPlant:
+          case TileType.Weeds:
+            texture = this.textures.get('tilledDirt')!;
+            break;
           case TileType.Tree:
             // Render grass underneath the tree first
             texture = this.textures.get('grass')!;
@@ -2156,6 +3164,22 @@ export class Game {
             // Render grass underneath the stump
             texture = this.textures.get('grass')!;
             break;
+          case TileType.Sprinkler:
+          case TileType.Chest:
+          case TileType.Greenhouse:
+            texture = this.textures.get('grass')!;
+            break;
+          case TileType.Wall:
+            texture = this.textures.get('wall')!;
+            break;
+          case TileType.Door:
+            // A building's door is drawn with the building; an indoor exit is a doorway in the wall
+            texture = tile.anchorX !== undefined ? this.textures.get('grass')! : this.textures.get('doorway')!;
+            break;
+          case TileType.GiantCrop:
+            // The crop itself is drawn once over the whole block below
+            texture = this.textures.get('tilledDirt')!;
+            break;
         }
         
         if (texture) {
@@ -2167,17 +3191,74 @@ export class Game {
           if (tile.type === TileType.PlantedDirt && tile.growth !== undefined) {
             this.spriteBatch.flush();
             
-            let plantTexture: Texture;
-            if (tile.growth < 0.3) {
-              plantTexture = this.textures.get('plant_0.2')!;
-            } else if (tile.growth < 0.7) {
-              plantTexture = this.textures.get('plant_0.5')!;
-            } else {
-              plantTexture = this.textures.get('plant_1.0')!;
+            const crop = tile.cropType ? cropRegistry.get(tile.cropType) : undefined;
+            const wiltedSuffix = tile.wilted ? '_wilted' : '';
+            const plantTexture = crop
+              ? this.textures.get(`plant_${crop.id}_${cropRegistry.getStageIndex(crop, tile.growth)}${wiltedSuffix}`)
+              : undefined;
+            
+            if (plantTexture) {
+              plantTexture.bind(0);
+              // Color variants from the crop's genetics tint the whole plant
+              const tint = tile.traits?.variant ? VARIANT_TINTS[tile.traits.variant] : undefined;
+              const shader = this.spriteBatch.getSpriteShader();
+              if (tint) {
+                shader.setUniform4f('u_color', tint.r, tint.g, tint.b, 1);
+              }
+              this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+              if (tint) {
+                this.spriteBatch.flush();
+                shader.setUniform4f('u_color', 1, 1, 1, 1);
+              }
             }
             
-            plantTexture.bind(0);
-            this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+            // Pests crawl over infested crops
+            const pestsTexture = tile.pests ? this.textures.get('pests') : undefined;
+            if (pestsTexture) {
+              this.spriteBatch.flush();
+              pestsTexture.bind(0);
+              this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+            }
+          }
+          
+          // Draw placed sprinklers on top of grass
+          if (tile.type === TileType.Sprinkler) {
+            this.spriteBatch.flush();
+            const sprinklerTexture = this.textures.get(`sprinkler_${tile.sprinkler}`);
+            if (sprinklerTexture) {
+              sprinklerTexture.bind(0);
+              this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+            }
+          }
+          
+          // Draw placed chests on top of grass
+          if (tile.type === TileType.Chest) {
+            this.spriteBatch.flush();
+            const chestTexture = this.textures.get('chest');
+            if (chestTexture) {
+              chestTexture.bind(0);
+              this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+            }
+          }
+          
+          // Draw withered remains on top of dead crops
+          if (tile.type === TileType.DeadPlant) {
+            this.spriteBatch.flush();
+            const deadTexture = this.textures.get('deadPlant');
+            if (deadTexture) {
+              deadTexture.bind(0);
+              this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+            }
+          }
+          
+          // Draw weeds over overgrown soil
+          if (tile.type === TileType.Weeds) {
+            this.spriteBatch.flush();
+            const weedsTexture = this.textures.get('weeds');
+            if (weedsTexture) {
+              weedsTexture.bind(0);
+              this.spriteBatch.drawTexturedQuad(worldX + tileSize/2, worldY + tileSize/2, tileSize, tileSize);
+            }
           }
           
           // Draw tree on top of grass
@@ -2230,6 +3311,18 @@ export class Game {
       }
     }
     
+    this.renderLargeObjects(startX, endX, startY, endY);
+    
+    // Sprinkler spray lands on neighbouring tiles, so it goes over all of them
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const tile = this.tileMap.getTileAt(x, y);
+        if (tile && tile.type === TileType.Sprinkler) {
+          this.renderSprinklerSpray(x, y, tile);
+        }
+      }
+    }
+    
     // Third pass: Render shoreline/edge effects
     this.renderShoreline(startX, endX, startY, endY);
   }
@@ -2261,10 +3354,10 @@ export class Game {
           const worldY = y * tileSize;
           
           // Check adjacent tiles for water
-          const leftWater = x > 0 && this.tileMap.getTileAt(x - 1, y)?.type === TileType.Water;
-          const rightWater = x < this.tileMap.getWidth() - 1 && this.tileMap.getTileAt(x + 1, y)?.type === TileType.Water;
-          const topWater = y > 0 && this.tileMap.getTileAt(x, y - 1)?.type === TileType.Water;
-          const bottomWater = y < this.tileMap.getHeight() - 1 && this.tileMap.getTileAt(x, y + 1)?.type === TileType.Water;
+          const leftWater = this.tileMap.getTileAt(x - 1, y)?.type === TileType.Water;
+          const rightWater = this.tileMap.getTileAt(x + 1, y)?.type === TileType.Water;
+          const topWater = this.tileMap.getTileAt(x, y - 1)?.type === TileType.Water;
+          const bottomWater = this.tileMap.getTileAt(x, y + 1)?.type === TileType.Water;
           
           const edgeWidth = 3; // Width of the edge effect
           
@@ -2305,17 +3398,8 @@ export class Game {
     const drops = this.itemDropManager.getDrops();
     
     drops.forEach(drop => {
-      let texture: Texture | null = null;
-      
-      if (drop.itemType === 'seeds') {
-        texture = this.textures.get('item_seeds') || null;
-      } else if (drop.itemType === 'carrot') {
-        texture = this.textures.get('item_carrot') || null;
-      } else if (drop.itemType === 'wood') {
-        texture = this.textures.get('item_wood') || null;
-      } else if (drop.itemType === 'tree_seeds') {
-        texture = this.textures.get('item_tree_seeds') || null;
-      }
+      const sprite = itemRegistry.get(drop.itemType)?.sprite;
+      const texture = (sprite && this.textures.get(sprite)) || null;
       
       if (texture) {
         this.spriteBatch.flush();
@@ -2513,10 +3597,10 @@ export class Game {
     const zoom = this.camera.getZoom();
     
     // Calculate visible tile range
-    const startX = Math.max(0, Math.floor((cameraPos.x - this.canvas.width / (2 * zoom)) / tileSize));
-    const endX = Math.min(this.tileMap.getWidth(), Math.ceil((cameraPos.x + this.canvas.width / (2 * zoom)) / tileSize));
-    const startY = Math.max(0, Math.floor((cameraPos.y - this.canvas.height / (2 * zoom)) / tileSize));
-    const endY = Math.min(this.tileMap.getHeight(), Math.ceil((cameraPos.y + this.canvas.height / (2 * zoom)) / tileSize));
+    const startX = Math.floor((cameraPos.x - this.canvas.width / (2 * zoom)) / tileSize);
+    const endX = Math.ceil((cameraPos.x + this.canvas.width / (2 * zoom)) / tileSize);
+    const startY = Math.floor((cameraPos.y - this.canvas.height / (2 * zoom)) / tileSize);
+    const endY = Math.ceil((cameraPos.y + this.canvas.height / (2 * zoom)) / tileSize);
     
     // Render progress for visible tiles
     for (let y = startY; y < endY; y++) {
@@ -2541,9 +3625,9 @@ export class Game {
         }
         
         // Tilled dirt reversion indicator
-        if (tile.type === TileType.TilledDirt && !tile.planted && tile.tilledTime) {
-          const currentTime = Date.now();
-          const tillDuration = 30000; // 30 seconds
+        if (tile.type === TileType.TilledDirt && !tile.planted && tile.tilledTime !== undefined) {
+          const currentTime = this.gameClock.now();
+          const tillDuration = TileMap.TILLED_DURATION;
           const elapsed = currentTime - tile.tilledTime;
           const remaining = Math.max(0, tillDuration - elapsed);
           const tillProgress = remaining / tillDuration;
@@ -2567,13 +3651,20 @@ export class Game {
             20, 
             3, 
             tile.growth, 
-            { r: 0.2, g: 0.8, b: 0.2 }
+            tile.wilted ? { r: 0.6, g: 0.5, b: 0.2 } : { r: 0.2, g: 0.8, b: 0.2 } // Straw brown while wilted
           );
           
+          // Harvests left on regrowing crops
+          const crop = tile.cropType ? cropRegistry.get(tile.cropType) : undefined;
+          if (crop?.regrowth) {
+            const remaining = crop.regrowth.harvests - (tile.harvestCount ?? 0);
+            this.renderHarvestPips(worldX, worldY + tileSize / 2 + 9, remaining, crop.regrowth.harvests);
+          }
+          
           // Watered status indicator
-          if (tile.watered && tile.lastWatered) {
-            const currentTime = Date.now();
-            const waterDuration = 5000; // 5 seconds
+          if (tile.watered && tile.lastWatered !== undefined) {
+            const currentTime = this.gameClock.now();
+            const waterDuration = this.tileMap.getWaterDuration(tile);
             const elapsed = currentTime - tile.lastWatered;
             const remaining = Math.max(0, waterDuration - elapsed);
             const waterProgress = remaining / waterDuration;
@@ -2593,6 +3684,30 @@ export class Game {
     }
   }
   
+  // Row of small squares, filled for each harvest a regrowing crop has left
+  private renderHarvestPips(x: number, y: number, remaining: number, total: number): void {
+    const pipSize = 3;
+    const spacing = 4;
+    const startX = x - ((total - 1) * spacing) / 2;
+    
+    this.spriteBatch.flush();
+    this.whiteTexture.bind(0);
+    const shader = this.spriteBatch.getSpriteShader();
+    shader.use();
+    
+    for (let i = 0; i < total; i++) {
+      if (i < remaining) {
+        shader.setUniform4f('u_color', 0.95, 0.3, 0.25, 0.9);
+      } else {
+        shader.setUniform4f('u_color', 0.2, 0.2, 0.2, 0.6);
+      }
+      this.spriteBatch.drawTexturedQuad(startX + i * spacing, y, pipSize, pipSize);
+      this.spriteBatch.flush(); // Flush so each pip keeps its own color
+    }
+    
+    shader.setUniform4f('u_color', 1, 1, 1, 1);
+  }
+  
   private renderProgressBar(x: number, y: number, width: number, height: number, progress: number, color: { r: number, g: number, b: number }): void {
     // Ensure progress is between 0 and 1
     progress = Math.max(0, Math.min(1, progress));
@@ -0,0 +1,78 @@
+export interface GameClockSaveData {
+  time: number;
+  speed: number;
+  paused: boolean;
+}
+
+export class GameClock {
+  private time: number = 0; // Simulated milliseconds since the world began
+  private speed: number = 1;
+  private paused: boolean = false;
+  private maxFrameStep: number = 0.25; // Cap on real seconds a single frame can advance the clock
+  
+  // Advances the clock by one frame and returns the scaled game delta in seconds
+  public update(deltaTime: number): number {
+    if (this.paused) return 0;
+    
+    const step = Math.min(deltaTime, this.maxFrameStep) * this.speed;
+    this.time += step * 1000;
+    return step;
+  }
+  
+  // Advances the clock by an exact amount of game time, ignoring pause and speed
+  public advance(seconds: number): void {
+    this.time += seconds * 1000;
+  }
+  
+  public now(): number {
+    return this.time;
+  }
+  
+  public setTime(time: number): void {
+    this.time = time;
+  }
+  
+  public reset(): void {
+    this.time = 0;
+    this.speed = 1;
+    this.paused = false;
+  }
+  
+  public pause(): void {
+    this.paused = true;
+  }
+  
+  public resume(): void {
+    this.paused = false;
+  }
+  
+  public togglePause(): void {
+    this.paused = !this.paused;
+  }
+  
+  public isPaused(): boolean {
+    return this.paused;
+  }
+  
+  public setSpeed(speed: number): void {
+    this.speed = Math.max(0, speed);
+  }
+  
+  public getSpeed(): number {
+    return this.speed;
+  }
+  
+  public getSaveData(): GameClockSaveData {
+    return {
+      time: this.time,
+      speed: this.speed,
+      paused: this.paused,
+    };
+  }
+  
+  public loadSaveData(data: GameClockSaveData): void {
+    this.time = data.time;
+    this.speed = data.speed;
+    this.paused = data.paused;
+  }
+}
\ No newline at end of file
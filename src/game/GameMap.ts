@@ -0,0 +1,39 @@
+import { TileMap, TileMapSaveData } from './TileMap';
+import { ItemDropManager, ItemDropSaveData } from './ItemDrop';
+import { NPC } from './NPC';
+import { Interactable } from './ActionSystem';
+
+export interface GameMapSaveData {
+  id: string;
+  tileMap: TileMapSaveData;
+  itemDrops: ItemDropSaveData[];
+}
+
+// One place the player can be: its tiles, the items dropped on them, and the people and
+// things there to interact with. Only the map the player is on is drawn and takes input,
+// but every map keeps growing.
+export class GameMap {
+  public readonly id: string;
+  public tileMap: TileMap;
+  public readonly itemDrops: ItemDropManager = new ItemDropManager();
+  public readonly npcs: NPC[] = [];
+  public readonly interactables: Map<string, Interactable> = new Map(); // Registered with the ActionSystem while the player is here
+  
+  constructor(id: string, tileMap: TileMap) {
+    this.id = id;
+    this.tileMap = tileMap;
+  }
+  
+  public getSaveData(): GameMapSaveData {
+    return {
+      id: this.id,
+      tileMap: this.tileMap.getSaveData(),
+      itemDrops: this.itemDrops.getSaveData(),
+    };
+  }
+  
+  public loadSaveData(data: GameMapSaveData): void {
+    this.tileMap.loadSaveData(data.tileMap);
+    this.itemDrops.loadSaveData(data.itemDrops);
+  }
+}
\ No newline at end of file
@@ -0,0 +1,67 @@
+import { Vec2 } from '../utils/math';
+import { Interactable, Action } from './ActionSystem';
+import { Keys } from '../engine/Input';
+import { GameMap } from './GameMap';
+import { TileType } from './TileMap';
+
+// Stands in for every chest on a map: it follows whichever chest is closest to the player,
+// so chests can be placed and picked up without registering each one
+export class InteractableChest implements Interactable {
+  public position: Vec2 = new Vec2(0, 0);
+  private map: GameMap;
+  private onOpen: (tileX: number, tileY: number) => void;
+  private chestTile: { x: number, y: number } | null = null;
+  
+  constructor(map: GameMap, onOpen: (tileX: number, tileY: number) => void) {
+    this.map = map;
+    this.onOpen = onOpen;
+  }
+  
+  public getAvailableActions(): Action[] {
+    return [{
+      id: 'open',
+      name: 'Open Chest',
+      key: 'F',
+      keyCode: Keys.F,
+      icon: '🧰'
+    }];
+  }
+  
+  public canInteract(playerPos: Vec2, playerFacing: string): boolean {
+    const interactionRadius = 48;
+    const tileSize = this.map.tileMap.getTileSize();
+    const centerX = Math.floor(playerPos.x / tileSize);
+    const centerY = Math.floor(playerPos.y / tileSize);
+    let closest = interactionRadius * interactionRadius;
+    let found: { x: number, y: number } | null = null;
+    
+    for (let y = centerY - 1; y <= centerY + 1; y++) {
+      for (let x = centerX - 1; x <= centerX + 1; x++) {
+        if (this.map.tileMap.getTileAt(x, y)?.type !== TileType.Chest) continue;
+        
+        const dx = x * tileSize + tileSize / 2 - playerPos.x;
+        const dy = y * tileSize + tileSize / 2 - playerPos.y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq <= closest) {
+          closest = distSq;
+          found = { x, y };
+        }
+      }
+    }
+    
+    if (!found) return false;
+    
+    // A new position rather than moving the old one, which the action indicator may hold
+    if (!this.chestTile || found.x !== this.chestTile.x || found.y !== this.chestTile.y) {
+      this.chestTile = found;
+      this.position = new Vec2(found.x * tileSize + tileSize / 2, found.y * tileSize + tileSize / 2);
+    }
+    return true;
+  }
+  
+  public performAction(actionId: string): void {
+    if (actionId === 'open' && this.chestTile) {
+      this.onOpen(this.chestTile.x, this.chestTile.y);
+    }
+  }
+}
\ No newline at end of file
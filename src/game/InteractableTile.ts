@@ -59,6 +59,14 @@ export class InteractableTile implements Interactable {
             keyCode: Keys.Space, // We'll handle mouse separately
             icon: '⛏️'
           });
+        } else if (toolType === 'sprinkler') {
+          actions.push({
+            id: 'place',
+            name: 'Place Sprinkler',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '⛲'
+          });
         }
         break;
         
@@ -79,6 +87,30 @@ export class InteractableTile implements Interactable {
             keyCode: Keys.Space,
             icon: '💧'
           });
+        } else if (toolType === 'fertilizer' && !tile.fertilizer) {
+          actions.push({
+            id: 'fertilize',
+            name: 'Apply Fertilizer',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🧪'
+          });
+        } else if (toolType === 'repellent' && !this.tileMap.isRepelled(tile)) {
+          actions.push({
+            id: 'repel',
+            name: 'Spray Repellent',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🧴'
+          });
+        } else if (toolType === 'sprinkler' && !tile.planted) {
+          actions.push({
+            id: 'place',
+            name: 'Place Sprinkler',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '⛲'
+          });
         }
         break;
         
@@ -99,6 +131,46 @@ export class InteractableTile implements Interactable {
             keyCode: Keys.Space,
             icon: '🌾'
           });
+        } else if (toolType === 'fertilizer' && !tile.fertilizer) {
+          actions.push({
+            id: 'fertilize',
+            name: 'Apply Fertilizer',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🧪'
+          });
+        } else if (toolType === 'repellent' && !this.tileMap.isRepelled(tile)) {
+          actions.push({
+            id: 'repel',
+            name: 'Spray Repellent',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🧴'
+          });
+        }
+        break;
+        
+      case TileType.DeadPlant:
+        if (toolType === 'scythe') {
+          actions.push({
+            id: 'clear',
+            name: 'Clear Dead Plant',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🥀'
+          });
+        }
+        break;
+        
+      case TileType.Weeds:
+        if (toolType === 'scythe') {
+          actions.push({
+            id: 'clear',
+            name: 'Clear Weeds',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🌿'
+          });
         }
         break;
         
@@ -113,6 +185,30 @@ export class InteractableTile implements Interactable {
           });
         }
         break;
+        
+      case TileType.GiantCrop:
+        if (toolType === 'axe') {
+          actions.push({
+            id: 'chop',
+            name: 'Chop Giant Crop',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '🪓'
+          });
+        }
+        break;
+        
+      case TileType.Sprinkler:
+        if (toolType === 'axe') {
+          actions.push({
+            id: 'pickup',
+            name: 'Pick Up Sprinkler',
+            key: 'Click',
+            keyCode: Keys.Space,
+            icon: '⛲'
+          });
+        }
+        break;
     }
     
     return actions;
@@ -138,7 +234,12 @@ export class InteractableTile implements Interactable {
       case 'till':
       case 'plant':
       case 'water':
+      case 'fertilize':
+      case 'repel':
+      case 'place':
+      case 'pickup':
       case 'harvest':
+      case 'clear':
       case 'chop':
         this.player.interactAt(worldX, worldY, this.tileMap, this.itemDropManager, this.audioSystem);
         break;
@@ -1,11 +1,27 @@
+import { itemRegistry, ItemCategory, ItemDefinition } from './ItemRegistry';
+import { CropQuality, QUALITY_TIERS, getQualityPrice } from './CropQuality';
+import { SeedTraits, traitsEqual, isSeedTraits } from './SeedGenetics';
+
 export interface InventoryItem {
-  id: string;
+  id: string; // Item registry id; name, icon, stackable, type and toolType come from its definition and aren't saved
   name: string;
   icon: string;
   quantity: number;
   stackable: boolean;
-  type: 'tool' | 'resource' | 'seed' | 'crop' | 'material';
+  type: ItemCategory;
   toolType?: string; // For tools
+  quality?: CropQuality; // Harvested crops; absent means normal
+  traits?: SeedTraits; // Crop seeds; absent means default traits
+  data?: ItemData; // This item's own state; absent for plain items
+}
+
+// State belonging to one item rather than to every item of its kind, like a tool's wear or
+// a name the player gave it. Values have to survive being saved as JSON.
+export interface ItemData {
+  durability?: number; // Uses left before it wears out
+  upgradeLevel?: number;
+  customName?: string; // Shown in place of the item's name
+  [key: string]: string | number | boolean | undefined;
 }
 
 export interface InventorySlot {
@@ -14,6 +30,123 @@ export interface InventorySlot {
   col: number;
 }
 
+// Where a slot is: the player's hotbar or grid, or the open container's grid (a chest)
+export type SlotArea = 'hotbar' | 'grid' | 'container';
+
+// Ways the grid can be sorted
+export type SortOrder = 'category' | 'name' | 'value';
+
+// Items to take out of the inventory; without a quality, any tier matches
+export interface ItemRequest {
+  id: string;
+  quantity: number;
+  quality?: CropQuality;
+}
+
+// Anything that holds coins, like the player
+export interface Wallet {
+  getMoney(): number;
+  addMoney(amount: number): void;
+}
+
+// Changes made together or not at all. Removals happen first, so a trade can hand over
+// items into the slots it frees.
+export interface InventoryTransaction {
+  remove?: ItemRequest[];
+  add?: InventoryItem[];
+  money?: number; // Paid into the wallet; negative to charge it
+}
+
+// What a save keeps of an item: the id and the item's own state. The rest is looked up again
+// on load, so changes to an item's definition reach existing saves.
+export interface ItemSaveData {
+  id: string;
+  quantity: number;
+  quality?: CropQuality;
+  traits?: SeedTraits;
+  data?: ItemData;
+}
+
+export interface InventorySaveData {
+  grid: (ItemSaveData | null)[][];
+  hotbar: (ItemSaveData | null)[];
+  selectedHotbarSlot: number;
+}
+
+// Item ids and quantities in the first hotbar slots of a new game
+const STARTING_HOTBAR: { id: string, quantity: number }[] = [
+  { id: 'hoe', quantity: 1 },
+  { id: 'axe', quantity: 1 },
+  { id: 'watering_can', quantity: 1 },
+  { id: 'scythe', quantity: 1 },
+  { id: 'carrot_seeds', quantity: 10 }
+];
+
+// Absent data is the same as none set, so plain items compare equal
+export function itemDataEqual(a?: ItemData, b?: ItemData): boolean {
+  const x = a ?? {};
+  const y = b ?? {};
+  return [...Object.keys(x), ...Object.keys(y)].every(key => x[key] === y[key]);
+}
+
+// A tool worn down to nothing, which does nothing until it's repaired
+export function isBroken(item: InventoryItem): boolean {
+  return item.data?.durability !== undefined && item.data.durability <= 0;
+}
+
+// A copy of the item that shares no data with it, so changing one leaves the other alone
+export function copyItem(item: InventoryItem, quantity: number = item.quantity): InventoryItem {
+  const copy = { ...item, quantity };
+  if (item.data) {
+    copy.data = { ...item.data };
+  }
+  return copy;
+}
+
+export function toItemSaveData(item: InventoryItem): ItemSaveData {
+  const saved: ItemSaveData = { id: item.id, quantity: item.quantity };
+  if (item.quality !== undefined) {
+    saved.quality = item.quality;
+  }
+  if (item.traits) {
+    saved.traits = { ...item.traits };
+  }
+  if (item.data) {
+    saved.data = { ...item.data };
+  }
+  return saved;
+}
+
+// Values in a save's item data have to be plain JSON, and the fields the game reads the right type
+function isItemData(value: unknown): value is ItemData {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  
+  const data = value as Record<string, unknown>;
+  return Object.values(data).every(entry => typeof entry === 'string' || typeof entry === 'boolean' || Number.isFinite(entry)) &&
+    (data.durability === undefined || typeof data.durability === 'number') &&
+    (data.upgradeLevel === undefined || typeof data.upgradeLevel === 'number') &&
+    (data.customName === undefined || typeof data.customName === 'string');
+}
+
+// An item read back from a save, which may be a file someone edited by hand. Only the id and
+// the item's own state are taken from it; the name, icon and the rest come from the item's
+// definition. Null when the id is unknown or the state isn't valid.
+export function restoreItem(saved: unknown): InventoryItem | null {
+  if (typeof saved !== 'object' || saved === null) return null;
+  
+  const { id, quantity, quality, traits, data } = saved as Record<string, unknown>;
+  const definition = typeof id === 'string' ? itemRegistry.get(id) : undefined;
+  if (!definition || typeof quantity !== 'number' || !Number.isInteger(quantity) || quantity < 1) return null;
+  if (quality !== undefined && !QUALITY_TIERS.includes(quality as CropQuality)) return null;
+  if (traits !== undefined && !isSeedTraits(traits)) return null;
+  if (data !== undefined && !isItemData(data)) return null;
+  
+  return itemRegistry.createItem(definition, quantity, quality as CropQuality | undefined, traits, data);
+}
+
+// Grouped in this order when sorting by category
+const CATEGORY_ORDER: ItemCategory[] = ['tool', 'seed', 'crop', 'fertilizer', 'repellent', 'placeable', 'resource', 'material'];
+
 export class InventorySystem {
   private grid: InventorySlot[][];
   private hotbar: InventorySlot[];
@@ -24,7 +157,10 @@ export class InventorySystem {
   
   // Dragging state
   private draggedItem: InventoryItem | null = null;
-  private draggedFromSlot: { row: number, col: number, isHotbar: boolean } | null = null;
+  private draggedFromSlot: { row: number, col: number, area: SlotArea } | null = null;
+  
+  // Slots of the chest being looked into, shown beside the grid while the inventory is open
+  private container: InventorySlot[][] | null = null;
   
   constructor() {
     // Initialize empty grid
@@ -46,135 +182,183 @@ export class InventorySystem {
     this.initializeStartingItems();
   }
   
+  // Empties every slot and restores the starting tools and seeds
+  public reset(): void {
+    this.draggedItem = null;
+    this.draggedFromSlot = null;
+    this.container = null;
+    this.grid.forEach(row => row.forEach(slot => slot.item = null));
+    this.hotbar.forEach(slot => slot.item = null);
+    this.selectedHotbarSlot = 0;
+    this.initializeStartingItems();
+  }
+  
   private initializeStartingItems(): void {
-    // Add tools to hotbar
-    this.hotbar[0].item = {
-      id: 'hoe',
-      name: 'Hoe',
-      icon: '⛏️',
-      quantity: 1,
-      stackable: false,
-      type: 'tool',
-      toolType: 'hoe'
-    };
-    
-    this.hotbar[1].item = {
-      id: 'axe',
-      name: 'Axe',
-      icon: '🪓',
-      quantity: 1,
-      stackable: false,
-      type: 'tool',
-      toolType: 'axe'
-    };
+    // Tools first, then seeds for easy access
+    STARTING_HOTBAR.forEach((entry, index) => {
+      const definition = itemRegistry.get(entry.id);
+      this.hotbar[index].item = definition ? itemRegistry.createItem(definition, entry.quantity) : null;
+    });
+  }
+  
+  // Stacks only hold one quality tier, one set of seed traits and one set of item data, so a
+  // gold carrot never merges into normal ones and a hybrid seed keeps its own stack
+  private canStack(a: InventoryItem, b: InventoryItem): boolean {
+    return a.stackable && a.id === b.id && (a.quality ?? CropQuality.Normal) === (b.quality ?? CropQuality.Normal) &&
+      traitsEqual(a.traits, b.traits) && itemDataEqual(a.data, b.data);
+  }
+  
+  private matches(item: InventoryItem, id: string, quality?: CropQuality): boolean {
+    return item.id === id && (quality === undefined || (item.quality ?? CropQuality.Normal) === quality);
+  }
+  
+  // Most of this item one slot can hold
+  private getStackLimit(item: InventoryItem): number {
+    if (!item.stackable) return 1;
+    return itemRegistry.get(item.id)?.stackLimit ?? 1;
+  }
+  
+  // Hotbar first, then the grid row by row
+  private getSlots(): InventorySlot[] {
+    return [...this.hotbar, ...this.grid.flat()];
+  }
+  
+  // How many of this item would fit: room left on matching stacks plus empty grid slots
+  private getRoomFor(item: InventoryItem): number {
+    const limit = this.getStackLimit(item);
+    let room = 0;
+    for (const slot of this.getSlots()) {
+      if (slot.item && this.canStack(slot.item, item)) {
+        room += Math.max(0, limit - slot.item.quantity);
+      }
+    }
+    for (const slot of this.grid.flat()) {
+      if (!slot.item) {
+        room += limit;
+      }
+    }
+    return room;
+  }
+  
+  // Puts up to `quantity` of the item onto matching stacks among the slots, then into empty
+  // ones, never going over the stack limit. Returns how many were placed.
+  private placeInto(item: InventoryItem, quantity: number, slots: InventorySlot[]): number {
+    const limit = this.getStackLimit(item);
+    let remaining = quantity;
     
-    this.hotbar[2].item = {
-      id: 'watering_can',
-      name: 'Watering Can',
-      icon: '💧',
-      quantity: 1,
-      stackable: false,
-      type: 'tool',
-      toolType: 'wateringCan'
-    };
+    for (const slot of slots) {
+      if (remaining === 0) break;
+      if (slot.item && this.canStack(slot.item, item)) {
+        const moved = Math.max(0, Math.min(remaining, limit - slot.item.quantity));
+        slot.item.quantity += moved;
+        remaining -= moved;
+      }
+    }
     
-    this.hotbar[3].item = {
-      id: 'scythe',
-      name: 'Scythe',
-      icon: '🌾',
-      quantity: 1,
-      stackable: false,
-      type: 'tool',
-      toolType: 'scythe'
-    };
+    for (const slot of slots) {
+      if (remaining === 0) break;
+      if (!slot.item) {
+        const moved = Math.min(remaining, limit);
+        slot.item = copyItem(item, moved);
+        remaining -= moved;
+      }
+    }
     
-    // Add seeds to hotbar for easy access
-    this.hotbar[4].item = {
-      id: 'carrot_seeds',
-      name: 'Carrot Seeds',
-      icon: '🥕',
-      quantity: 10,
-      stackable: true,
-      type: 'seed',
-      toolType: 'seeds'
-    };
+    return quantity - remaining;
   }
   
+  // Adds all of the item or none of it. Stacks anywhere are topped up first and the rest
+  // overflows into new stacks in empty grid slots.
   public addItem(item: InventoryItem): boolean {
-    // If stackable, try to find existing stack
-    if (item.stackable) {
-      // Check hotbar first
-      for (const slot of this.hotbar) {
-        if (slot.item && slot.item.id === item.id) {
-          slot.item.quantity += item.quantity;
-          return true;
-        }
-      }
-      
-      // Then check grid
-      for (let row = 0; row < this.gridSize.rows; row++) {
-        for (let col = 0; col < this.gridSize.cols; col++) {
-          const slot = this.grid[row][col];
-          if (slot.item && slot.item.id === item.id) {
-            slot.item.quantity += item.quantity;
-            return true;
-          }
-        }
-      }
+    if (this.getRoomFor(item) < item.quantity) {
+      return false; // Inventory full
     }
     
-    // Find empty slot in grid
-    for (let row = 0; row < this.gridSize.rows; row++) {
-      for (let col = 0; col < this.gridSize.cols; col++) {
-        if (!this.grid[row][col].item) {
-          this.grid[row][col].item = { ...item };
-          return true;
+    const stacked = this.placeInto(item, item.quantity, this.getSlots().filter(slot => slot.item));
+    this.placeInto(item, item.quantity - stacked, this.grid.flat());
+    return true;
+  }
+  
+  public canAddItem(item: InventoryItem): boolean {
+    return this.getRoomFor(item) >= item.quantity;
+  }
+  
+  // Whether the transaction would go through, without changing anything
+  public canCommit(transaction: InventoryTransaction, wallet?: Wallet): boolean {
+    return this.apply(transaction, wallet, false);
+  }
+  
+  // Makes every change in the transaction, or none of them if any item doesn't fit, isn't
+  // there to take, or the wallet can't cover the cost
+  public commit(transaction: InventoryTransaction, wallet?: Wallet): boolean {
+    return this.apply(transaction, wallet, true);
+  }
+  
+  private apply(transaction: InventoryTransaction, wallet: Wallet | undefined, keep: boolean): boolean {
+    const money = transaction.money ?? 0;
+    if (money !== 0 && (!wallet || wallet.getMoney() + money < 0)) {
+      return false;
+    }
+    
+    // Removing and adding only change quantities and which item a slot holds, so putting back
+    // the same items with their old quantities undoes it without swapping out any item
+    const slots = this.getSlots();
+    const before = slots.map(slot => ({ item: slot.item, quantity: slot.item?.quantity ?? 0 }));
+    const applied = (transaction.remove ?? []).every(request => this.removeItem(request.id, request.quantity, request.quality)) &&
+      (transaction.add ?? []).every(item => this.addItem(item));
+    
+    if (!applied || !keep) {
+      slots.forEach((slot, index) => {
+        const { item, quantity } = before[index];
+        slot.item = item;
+        if (item) {
+          item.quantity = quantity;
         }
-      }
+      });
+      return applied;
     }
     
-    return false; // Inventory full
+    if (wallet && money !== 0) {
+      wallet.addMoney(money);
+    }
+    return true;
   }
   
-  public removeItem(id: string, quantity: number): boolean {
-    // Check hotbar first
-    for (const slot of this.hotbar) {
-      if (slot.item && slot.item.id === id) {
-        if (slot.item.quantity >= quantity) {
-          slot.item.quantity -= quantity;
-          if (slot.item.quantity === 0) {
-            slot.item = null;
-          }
-          return true;
-        }
-      }
+  // Swaps the recipe's ingredients for one of the item, if they're all here and it fits
+  public craft(definition: ItemDefinition): boolean {
+    if (!definition.recipe) return false;
+    return this.commit({ remove: definition.recipe, add: [itemRegistry.createItem(definition, 1)] });
+  }
+  
+  // Takes the quantity from as many stacks as it needs, hotbar first, or takes nothing if
+  // there isn't enough. Without a quality, any tier of the item matches.
+  public removeItem(id: string, quantity: number, quality?: CropQuality): boolean {
+    if (this.getItemCount(id, quality) < quantity) {
+      return false;
     }
     
-    // Then check grid
-    for (let row = 0; row < this.gridSize.rows; row++) {
-      for (let col = 0; col < this.gridSize.cols; col++) {
-        const slot = this.grid[row][col];
-        if (slot.item && slot.item.id === id) {
-          if (slot.item.quantity >= quantity) {
-            slot.item.quantity -= quantity;
-            if (slot.item.quantity === 0) {
-              slot.item = null;
-            }
-            return true;
-          }
+    let remaining = quantity;
+    for (const slot of this.getSlots()) {
+      if (remaining === 0) break;
+      if (slot.item && this.matches(slot.item, id, quality)) {
+        const taken = Math.min(remaining, slot.item.quantity);
+        slot.item.quantity -= taken;
+        remaining -= taken;
+        if (slot.item.quantity === 0) {
+          slot.item = null;
         }
       }
     }
     
-    return false;
+    return true;
   }
   
-  public getItemCount(id: string): number {
+  public getItemCount(id: string, quality?: CropQuality): number {
     let count = 0;
     
     // Count in hotbar
     for (const slot of this.hotbar) {
-      if (slot.item && slot.item.id === id) {
+      if (slot.item && this.matches(slot.item, id, quality)) {
         count += slot.item.quantity;
       }
     }
@@ -183,7 +367,7 @@ export class InventorySystem {
     for (let row = 0; row < this.gridSize.rows; row++) {
       for (let col = 0; col < this.gridSize.cols; col++) {
         const slot = this.grid[row][col];
-        if (slot.item && slot.item.id === id) {
+        if (slot.item && this.matches(slot.item, id, quality)) {
           count += slot.item.quantity;
         }
       }
@@ -192,53 +376,128 @@ export class InventorySystem {
     return count;
   }
   
-  public startDragging(row: number, col: number, isHotbar: boolean): void {
-    const slot = isHotbar ? this.hotbar[col] : this.grid[row][col];
-    if (slot.item) {
-      this.draggedItem = { ...slot.item };
-      this.draggedFromSlot = { row, col, isHotbar };
+  // Items that have lost durability, hotbar first. Tools from saves made before durability
+  // existed are loaded at full.
+  public getWornItems(): InventoryItem[] {
+    return this.getSlots()
+      .map(slot => slot.item)
+      .filter((item): item is InventoryItem => {
+        const durability = item?.data?.durability;
+        const maxDurability = item ? itemRegistry.get(item.id)?.durability : undefined;
+        return durability !== undefined && maxDurability !== undefined && durability < maxDurability;
+      });
+  }
+  
+  public getSlot(row: number, col: number, area: SlotArea): InventorySlot | null {
+    switch (area) {
+      case 'hotbar': return this.hotbar[col] ?? null;
+      case 'grid': return this.grid[row]?.[col] ?? null;
+      case 'container': return this.container?.[row]?.[col] ?? null;
+    }
+  }
+  
+  private getDragSource(): InventorySlot | null {
+    if (!this.draggedFromSlot) return null;
+    return this.getSlot(this.draggedFromSlot.row, this.draggedFromSlot.col, this.draggedFromSlot.area);
+  }
+  
+  // Picks up the whole stack, or only part of it to split the stack in two
+  public startDragging(row: number, col: number, area: SlotArea, quantity?: number): void {
+    const slot = this.getSlot(row, col, area);
+    if (!slot?.item) return;
+    
+    const taken = Math.min(quantity ?? slot.item.quantity, slot.item.quantity);
+    if (taken <= 0) return;
+    
+    this.draggedItem = copyItem(slot.item, taken);
+    this.draggedFromSlot = { row, col, area };
+    slot.item.quantity -= taken;
+    if (slot.item.quantity === 0) {
       slot.item = null;
     }
   }
   
-  public dropItem(row: number, col: number, isHotbar: boolean): void {
-    if (!this.draggedItem || !this.draggedFromSlot) return;
+  public dropItem(row: number, col: number, area: SlotArea): void {
+    const sourceSlot = this.getDragSource();
+    const targetSlot = this.getSlot(row, col, area);
+    if (!this.draggedItem || !sourceSlot || !targetSlot) return;
     
-    const targetSlot = isHotbar ? this.hotbar[col] : this.grid[row][col];
-    const sourceSlot = this.draggedFromSlot.isHotbar 
-      ? this.hotbar[this.draggedFromSlot.col] 
-      : this.grid[this.draggedFromSlot.row][this.draggedFromSlot.col];
     
-    // If target has item, swap them
-    if (targetSlot.item) {
+    if (targetSlot.item && this.canStack(targetSlot.item, this.draggedItem)) {
+      // Top up the stack; whatever doesn't fit goes back where it came from
+      this.draggedItem.quantity -= this.placeInto(this.draggedItem, this.draggedItem.quantity, [targetSlot]);
+      if (this.draggedItem.quantity > 0) {
+        this.cancelDragging();
+        return;
+      }
+    } else if (targetSlot.item) {
+      // Swap them, unless part of the stack was left behind and there's nowhere to swap to
+      if (sourceSlot.item) {
+        this.cancelDragging();
+        return;
+      }
       sourceSlot.item = targetSlot.item;
+      targetSlot.item = this.draggedItem;
+    } else {
+      targetSlot.item = this.draggedItem;
     }
     
-    targetSlot.item = this.draggedItem;
-    
     this.draggedItem = null;
     this.draggedFromSlot = null;
   }
   
-  public cancelDragging(): void {
-    if (this.draggedItem && this.draggedFromSlot) {
-      const slot = this.draggedFromSlot.isHotbar 
-        ? this.hotbar[this.draggedFromSlot.col] 
-        : this.grid[this.draggedFromSlot.row][this.draggedFromSlot.col];
-      slot.item = this.draggedItem;
+  // Puts back anything being dragged: into the slot it came from as far as it fits there, and
+  // the rest wherever it fits if something was picked up into that slot mid-drag. Returns false,
+  // leaving what's left in hand, when there's no room for it.
+  public cancelDragging(): boolean {
+    const slot = this.getDragSource();
+    if (this.draggedItem) {
+      if (slot) {
+        this.draggedItem.quantity -= this.placeInto(this.draggedItem, this.draggedItem.quantity, [slot]);
+      }
+      if (this.draggedItem.quantity > 0 && !this.addItem(this.draggedItem)) {
+        return false;
+      }
     }
     
     this.draggedItem = null;
     this.draggedFromSlot = null;
+    return true;
+  }
+  
+  // Empties the hand, for an item that couldn't be put back to be dropped somewhere else
+  public takeDraggedItem(): InventoryItem | null {
+    const item = this.draggedItem;
+    this.draggedItem = null;
+    this.draggedFromSlot = null;
+    return item;
   }
   
   public toggleInventory(): void {
     this.isOpen = !this.isOpen;
     if (!this.isOpen) {
-      this.cancelDragging();
+      this.closeContainer();
     }
   }
   
+  // Opens the inventory with the container's slots beside it
+  public openContainer(slots: InventorySlot[][]): void {
+    this.cancelDragging();
+    this.container = slots;
+    this.isOpen = true;
+  }
+  
+  // Puts back anything being dragged, so nothing taken from the container is left in hand once
+  // it's gone. Only the player's own stacks can stay in hand, when there's no room for them.
+  public closeContainer(): void {
+    this.cancelDragging();
+    this.container = null;
+  }
+  
+  public getContainer(): InventorySlot[][] | null {
+    return this.container;
+  }
+  
   public isInventoryOpen(): boolean {
     return this.isOpen;
   }
@@ -253,6 +512,19 @@ export class InventorySystem {
     return this.hotbar[this.selectedHotbarSlot].item;
   }
   
+  // Uses up one of the selected hotbar item, emptying the slot when it was the last. This is the
+  // exact stack the player used, so seeds with particular traits or quality come from the right one.
+  public consumeSelectedHotbarItem(): boolean {
+    const slot = this.hotbar[this.selectedHotbarSlot];
+    if (!slot.item) return false;
+    
+    slot.item.quantity--;
+    if (slot.item.quantity <= 0) {
+      slot.item = null;
+    }
+    return true;
+  }
+  
   public getGrid(): InventorySlot[][] {
     return this.grid;
   }
@@ -273,56 +545,118 @@ export class InventorySystem {
     return this.gridSize;
   }
   
-  public quickTransfer(row: number, col: number, isHotbar: boolean): void {
-    const sourceSlot = isHotbar ? this.hotbar[col] : this.grid[row][col];
-    if (!sourceSlot.item) return;
+  public getSaveData(): InventorySaveData {
+    // Put back anything mid-drag so it isn't lost from the save; the caller drops whatever
+    // doesn't fit
+    this.cancelDragging();
     
-    if (isHotbar) {
-      // Transfer from hotbar to first available inventory slot
-      for (let r = 0; r < this.gridSize.rows; r++) {
-        for (let c = 0; c < this.gridSize.cols; c++) {
-          const targetSlot = this.grid[r][c];
-          
-          // Try to stack with existing items first
-          if (sourceSlot.item.stackable && targetSlot.item && targetSlot.item.id === sourceSlot.item.id) {
-            targetSlot.item.quantity += sourceSlot.item.quantity;
-            sourceSlot.item = null;
-            return;
-          }
-        }
+    return {
+      grid: this.grid.map(row => row.map(slot => slot.item ? toItemSaveData(slot.item) : null)),
+      hotbar: this.hotbar.map(slot => slot.item ? toItemSaveData(slot.item) : null),
+      selectedHotbarSlot: this.selectedHotbarSlot,
+    };
+  }
+  
+  public loadSaveData(data: InventorySaveData): void {
+    this.draggedItem = null;
+    this.draggedFromSlot = null;
+    this.container = null;
+    
+    for (let row = 0; row < this.gridSize.rows; row++) {
+      for (let col = 0; col < this.gridSize.cols; col++) {
+        const item = data.grid[row]?.[col];
+        this.grid[row][col].item = restoreItem(item);
       }
+    }
+    
+    for (let i = 0; i < this.hotbarSize; i++) {
+      const item = data.hotbar[i];
+      this.hotbar[i].item = restoreItem(item);
+    }
+    
+    this.selectHotbarSlot(data.selectedHotbarSlot);
+  }
+  
+  // Sorts the grid, merging partial stacks as it goes; the hotbar stays as the player set it up.
+  // Items of a kind end up together, best quality first, and stacks over the limit are split.
+  // Returns false, leaving the grid as it was, if that doesn't all fit back in.
+  public sortGrid(order: SortOrder): boolean {
+    if (!this.cancelDragging()) return false;
+    
+    const slots = this.grid.flat();
+    const original = slots.map(slot => slot.item);
+    const items = original.filter((item): item is InventoryItem => item !== null);
+    slots.forEach(slot => slot.item = null);
+    items.sort((a, b) => this.compareItems(a, b, order));
+    
+    // Placing copies the items into the slots, so the originals are still intact to put back
+    if (!items.every(item => this.placeInto(item, item.quantity, slots) === item.quantity)) {
+      slots.forEach((slot, index) => slot.item = original[index]);
+      return false;
+    }
+    return true;
+  }
+  
+  private compareItems(a: InventoryItem, b: InventoryItem, order: SortOrder): number {
+    const byName = a.name.localeCompare(b.name) || (b.quality ?? CropQuality.Normal) - (a.quality ?? CropQuality.Normal);
+    switch (order) {
+      case 'category':
+        return CATEGORY_ORDER.indexOf(a.type) - CATEGORY_ORDER.indexOf(b.type) || byName;
+      case 'value':
+        return this.getUnitValue(b) - this.getUnitValue(a) || byName;
+      case 'name':
+        return byName;
+    }
+  }
+  
+  // What a shop pays for one, or 0 for items nobody buys
+  private getUnitValue(item: InventoryItem): number {
+    return getQualityPrice(itemRegistry.get(item.id)?.sellPrice ?? 0, item.quality);
+  }
+  
+  // Moves grid stacks into the containers that already hold some of that item, topping up
+  // their stacks before using empty slots. The hotbar is left alone. Returns how many moved.
+  public stackIntoContainers(containers: InventorySlot[][][]): number {
+    if (!this.cancelDragging()) return 0;
+    
+    let moved = 0;
+    for (const slot of this.grid.flat()) {
+      const item = slot.item;
+      if (!item) continue;
       
-      // If no stack found, find empty slot
-      for (let r = 0; r < this.gridSize.rows; r++) {
-        for (let c = 0; c < this.gridSize.cols; c++) {
-          if (!this.grid[r][c].item) {
-            this.grid[r][c].item = sourceSlot.item;
-            sourceSlot.item = null;
-            return;
-          }
-        }
-      }
-    } else {
-      // Transfer from inventory to first available hotbar slot
-      for (let i = 0; i < this.hotbarSize; i++) {
-        const targetSlot = this.hotbar[i];
+      for (const container of containers) {
+        const slots = container.flat();
+        if (!slots.some(other => other.item && this.canStack(other.item, item))) continue;
         
-        // Try to stack with existing items first
-        if (sourceSlot.item.stackable && targetSlot.item && targetSlot.item.id === sourceSlot.item.id) {
-          targetSlot.item.quantity += sourceSlot.item.quantity;
-          sourceSlot.item = null;
-          return;
-        }
-      }
-      
-      // If no stack found, find empty slot
-      for (let i = 0; i < this.hotbarSize; i++) {
-        if (!this.hotbar[i].item) {
-          this.hotbar[i].item = sourceSlot.item;
-          sourceSlot.item = null;
-          return;
+        const placed = this.placeInto(item, item.quantity, slots);
+        item.quantity -= placed;
+        moved += placed;
+        if (item.quantity === 0) {
+          slot.item = null;
+          break;
         }
       }
     }
+    return moved;
+  }
+  
+  // Moves the stack into the open container and back out to the grid, or between the hotbar
+  // and the grid when there's no container. Matching stacks are topped up before the first
+  // empty slot is used, and anything that doesn't fit stays where it was.
+  public quickTransfer(row: number, col: number, area: SlotArea): void {
+    const sourceSlot = this.getSlot(row, col, area);
+    if (!sourceSlot?.item) return;
+    
+    const item = sourceSlot.item;
+    let targets: InventorySlot[];
+    if (this.container) {
+      targets = area === 'container' ? this.grid.flat() : this.container.flat();
+    } else {
+      targets = area === 'hotbar' ? this.grid.flat() : this.hotbar;
+    }
+    item.quantity -= this.placeInto(item, item.quantity, targets);
+    if (item.quantity === 0) {
+      sourceSlot.item = null;
+    }
   }
 }
\ No newline at end of file
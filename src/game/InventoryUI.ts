@@ -1,16 +1,29 @@
-import { InventorySystem, InventorySlot, InventoryItem } from './InventorySystem';
+import { InventorySystem, InventorySlot, InventoryItem, SlotArea, SortOrder } from './InventorySystem';
+import { QUALITY_COLORS, QUALITY_NAMES } from './CropQuality';
+import { describeTraits } from './SeedGenetics';
+import { cropRegistry } from './CropRegistry';
+import { itemRegistry } from './ItemRegistry';
 
 export class InventoryUI {
   private container: HTMLDivElement | null = null;
   private hotbarContainer: HTMLDivElement | null = null;
   private inventorySystem: InventorySystem;
   private mousePos = { x: 0, y: 0 };
-  private hoveredSlot: { row: number, col: number, isHotbar: boolean } | null = null;
+  private hoveredSlot: { row: number, col: number, area: SlotArea } | null = null;
   private handledKeys = new Set<string>();
   private tooltip: HTMLDivElement | null = null;
+  // Short notice shown above the hotbar, like a tool being broken
+  private message: HTMLDivElement | null = null;
+  private messageTimeout: number | undefined;
+  // Slot a half stack was just picked up from, by right-click or shift-press
+  private splitPress: { row: number, col: number, area: SlotArea, shift: boolean } | null = null;
+  // Search text; grid and chest slots whose item doesn't match it are dimmed
+  private filterText: string = '';
+  private getNearbyChests: () => InventorySlot[][][];
   
-  constructor(inventorySystem: InventorySystem) {
+  constructor(inventorySystem: InventorySystem, getNearbyChests: () => InventorySlot[][][]) {
     this.inventorySystem = inventorySystem;
+    this.getNearbyChests = getNearbyChests;
     this.createHotbar();
     this.createTooltip();
     this.setupMouseTracking();
@@ -47,17 +60,23 @@ export class InventoryUI {
     if (!this.tooltip) return;
     
     if (this.hoveredSlot && !this.inventorySystem.getDraggedItem()) {
-      const slot = this.hoveredSlot.isHotbar 
-        ? this.inventorySystem.getHotbar()[this.hoveredSlot.col]
-        : this.inventorySystem.getGrid()[this.hoveredSlot.row][this.hoveredSlot.col];
+      const slot = this.inventorySystem.getSlot(this.hoveredSlot.row, this.hoveredSlot.col, this.hoveredSlot.area);
       
-      if (slot.item) {
+      if (slot?.item) {
         this.tooltip.style.display = 'block';
         this.tooltip.innerHTML = `
-          <div style="font-weight: bold; margin-bottom: 4px;">${slot.item.name}</div>
+          <div style="font-weight: bold; margin-bottom: 4px;">${this.getDisplayName(slot.item)}</div>
+          ${slot.item.data?.customName ? `<div style="color: #AAA; font-size: 12px; font-style: italic;">${this.escape(slot.item.name)}</div>` : ''}
+          ${slot.item.quality ? `<div style="color: ${QUALITY_COLORS[slot.item.quality]}; font-size: 12px;">★ ${QUALITY_NAMES[slot.item.quality]} quality</div>` : ''}
           ${slot.item.quantity > 1 ? `<div style="color: #AAA; font-size: 12px;">Quantity: ${slot.item.quantity}</div>` : ''}
+          ${slot.item.traits?.crossedWith ? `<div style="color: #FF9FF3; font-size: 12px;">Hybrid with ${this.escape(cropRegistry.get(slot.item.traits.crossedWith)?.name ?? slot.item.traits.crossedWith)}</div>` : ''}
+          ${slot.item.traits ? `<div style="color: #9FD8FF; font-size: 12px;">${describeTraits(slot.item.traits).join('<br>')}</div>` : ''}
+          ${slot.item.data ? this.describeItemData(slot.item).map(line => `<div style="color: #B0C4DE; font-size: 12px;">${line}</div>`).join('') : ''}
           ${slot.item.type === 'tool' ? `<div style="color: #FFD700; font-size: 12px;">Tool</div>` : ''}
           ${slot.item.type === 'seed' ? `<div style="color: #90EE90; font-size: 12px;">Seed - Can be planted</div>` : ''}
+          ${slot.item.type === 'fertilizer' ? `<div style="color: #DEB887; font-size: 12px;">Fertilizer - Work into tilled soil</div>` : ''}
+          ${slot.item.type === 'repellent' ? `<div style="color: #C3E88D; font-size: 12px;">Repellent - Spray over soil to keep pests away</div>` : ''}
+          ${slot.item.type === 'placeable' ? `<div style="color: #87CEEB; font-size: 12px;">Placeable - Set down on open ground</div>` : ''}
           ${slot.item.type === 'crop' ? `<div style="color: #FFA500; font-size: 12px;">Crop - Can be sold</div>` : ''}
           ${slot.item.type === 'resource' ? `<div style="color: #8B7355; font-size: 12px;">Resource</div>` : ''}
         `;
@@ -85,6 +104,41 @@ export class InventoryUI {
     }
   }
   
+  // The name the player gave the item, if any, with its upgrade level
+  private getDisplayName(item: InventoryItem): string {
+    const name = this.escape(item.data?.customName || item.name);
+    return item.data?.upgradeLevel ? `${name} +${item.data.upgradeLevel}` : name;
+  }
+  
+  // Tooltip lines for the item's own data; the name and upgrade level are already in its title
+  private describeItemData(item: InventoryItem): string[] {
+    const lines: string[] = [];
+    for (const [key, value] of Object.entries(item.data ?? {})) {
+      if (value === undefined || key === 'customName' || key === 'upgradeLevel') continue;
+      
+      if (key === 'durability') {
+        const maxDurability = itemRegistry.get(item.id)?.durability;
+        const durability = Number(value);
+        if (durability <= 0) {
+          lines.push('Broken - Repair at the blacksmith');
+        } else {
+          lines.push(maxDurability !== undefined ? `Durability: ${durability}/${maxDurability}` : `Durability: ${durability}`);
+        }
+      } else {
+        lines.push(`${this.escape(key)}: ${this.escape(String(value))}`);
+      }
+    }
+    return lines;
+  }
+  
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+  
   private createHotbar(): void {
     this.hotbarContainer = document.createElement('div');
     this.hotbarContainer.id = 'hotbar';
@@ -104,6 +158,37 @@ export class InventoryUI {
     
     document.body.appendChild(this.hotbarContainer);
     this.updateHotbar();
+    
+    this.message = document.createElement('div');
+    this.message.style.cssText = `
+      position: fixed;
+      bottom: 90px;
+      left: 50%;
+      transform: translateX(-50%);
+      background: rgba(0, 0, 0, 0.8);
+      color: #FFD700;
+      padding: 6px 12px;
+      border-radius: 6px;
+      font-size: 14px;
+      pointer-events: none;
+      z-index: 100;
+      display: none;
+    `;
+    document.body.appendChild(this.message);
+  }
+  
+  // Shows the text above the hotbar for a few seconds
+  public showMessage(text: string): void {
+    if (!this.message) return;
+    
+    this.message.textContent = text;
+    this.message.style.display = 'block';
+    window.clearTimeout(this.messageTimeout);
+    this.messageTimeout = window.setTimeout(() => {
+      if (this.message) {
+        this.message.style.display = 'none';
+      }
+    }, 3000);
   }
   
   public updateHotbar(): void {
@@ -114,7 +199,7 @@ export class InventoryUI {
     const selectedIndex = this.inventorySystem.getSelectedHotbarIndex();
     
     hotbar.forEach((slot, index) => {
-      const slotElement = this.createSlotElement(slot, true, index);
+      const slotElement = this.createSlotElement(slot, 'hotbar', index);
       
       // Highlight selected slot
       if (index === selectedIndex) {
@@ -142,6 +227,7 @@ export class InventoryUI {
   public showInventory(): void {
     if (this.container) return;
     
+    const chest = this.inventorySystem.getContainer();
     this.container = document.createElement('div');
     this.container.id = 'inventory';
     this.container.style.cssText = `
@@ -155,7 +241,7 @@ export class InventoryUI {
       padding: 20px;
       z-index: 1000;
       box-shadow: 0 0 20px rgba(0, 0, 0, 0.8);
-      width: 360px;
+      width: ${chest ? 720 : 360}px;
       display: flex;
       flex-direction: column;
       min-height: 480px;
@@ -174,30 +260,35 @@ export class InventoryUI {
       font-size: 24px;
     `;
     this.container.appendChild(title);
+    this.container.appendChild(this.createToolbar());
     
-    // Grid container
-    const gridContainer = document.createElement('div');
-    gridContainer.style.cssText = `
-      display: grid;
-      grid-template-columns: repeat(6, 50px);
-      gap: 4px;
-      margin-bottom: 30px;
-      width: fit-content;
-      justify-self: center;
-      align-self: center;
+    // Grid container, with an open chest's grid beside it
+    const grids = document.createElement('div');
+    grids.style.cssText = `
+      display: flex;
+      gap: 30px;
+      justify-content: center;
+      align-items: flex-start;
+      margin-bottom: 20px;
     `;
-    
-    // Create grid slots
-    const grid = this.inventorySystem.getGrid();
-    for (let row = 0; row < 6; row++) {
-      for (let col = 0; col < 6; col++) {
-        const slot = grid[row][col];
-        const slotElement = this.createSlotElement(slot, false, col, row);
-        gridContainer.appendChild(slotElement);
-      }
+    if (chest) {
+      grids.appendChild(this.createGridPanel('Chest', 'container-grid', chest[0]?.length ?? 0));
     }
+    grids.appendChild(this.createGridPanel(chest ? 'Backpack' : '', 'inventory-grid', this.inventorySystem.getGridSize().cols));
+    this.container.appendChild(grids);
+    
+    // Recipes the player can make from what they carry
+    const crafting = document.createElement('div');
+    crafting.className = 'crafting-list';
+    crafting.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      justify-content: center;
+    `;
+    this.container.appendChild(crafting);
     
-    this.container.appendChild(gridContainer);
+    this.refreshInventoryGrid();
     
     // Close hint
     const closeHint = document.createElement('p');
@@ -238,7 +329,126 @@ export class InventoryUI {
     this.removeHotbarAssignment();
   }
   
-  private createSlotElement(slot: InventorySlot, isHotbar: boolean, col: number, row: number = -1): HTMLDivElement {
+  // Star in the top-left corner for silver and better crops
+  private renderQualityBadge(item: InventoryItem): string {
+    if (!item.quality) return '';
+    return `<span style="
+          position: absolute;
+          top: 0;
+          left: 2px;
+          font-size: 12px;
+          color: ${QUALITY_COLORS[item.quality]};
+          text-shadow: 1px 1px 2px black;
+        ">★</span>`;
+  }
+  
+  // Search box, sort buttons and stack-to-chests above the grids
+  private createToolbar(): HTMLDivElement {
+    const toolbar = document.createElement('div');
+    toolbar.style.cssText = `
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+      justify-content: center;
+      align-items: center;
+      margin-bottom: 15px;
+    `;
+    
+    const search = document.createElement('input');
+    search.type = 'text';
+    search.placeholder = 'Search...';
+    search.value = this.filterText;
+    search.style.cssText = `
+      width: 120px;
+      padding: 5px 8px;
+      background: #222;
+      color: white;
+      border: 2px solid #555;
+      border-radius: 6px;
+      font-size: 13px;
+    `;
+    search.addEventListener('input', () => {
+      this.filterText = search.value;
+      this.refreshInventoryGrid();
+    });
+    // Game keys are ignored while typing, so Escape hands the keyboard back instead
+    search.addEventListener('keydown', (e) => {
+      if (e.key === 'Escape') {
+        search.blur();
+      }
+    });
+    toolbar.appendChild(search);
+    
+    const sortOrders: { order: SortOrder, label: string }[] = [
+      { order: 'category', label: 'Type' },
+      { order: 'name', label: 'Name' },
+      { order: 'value', label: 'Value' }
+    ];
+    for (const { order, label } of sortOrders) {
+      toolbar.appendChild(this.createToolbarButton(`Sort: ${label}`, () => this.inventorySystem.sortGrid(order)));
+    }
+    toolbar.appendChild(this.createToolbarButton('Stack to chests', () => {
+      this.inventorySystem.stackIntoContainers(this.getNearbyChests());
+    }));
+    
+    return toolbar;
+  }
+  
+  private createToolbarButton(label: string, onClick: () => void): HTMLButtonElement {
+    const button = document.createElement('button');
+    button.textContent = label;
+    button.style.cssText = `
+      padding: 5px 8px;
+      background: rgba(70, 70, 70, 0.9);
+      color: white;
+      border: 2px solid #666;
+      border-radius: 6px;
+      font-size: 13px;
+      cursor: pointer;
+    `;
+    button.addEventListener('click', () => {
+      onClick();
+      this.updateDisplay();
+    });
+    return button;
+  }
+  
+  // Whether the item's name or category contains the search text
+  private matchesFilter(item: InventoryItem | null): boolean {
+    const text = this.filterText.trim().toLowerCase();
+    if (!text) return true;
+    return !!item && (item.name.toLowerCase().includes(text) || !!item.data?.customName?.toLowerCase().includes(text) ||
+      item.type.includes(text));
+  }
+  
+  // A titled, empty grid of the given width; refreshInventoryGrid fills in its slots
+  private createGridPanel(title: string, className: string, cols: number): HTMLDivElement {
+    const panel = document.createElement('div');
+    if (title) {
+      const heading = document.createElement('h3');
+      heading.textContent = title;
+      heading.style.cssText = `
+        color: #DDD;
+        text-align: center;
+        margin: 0 0 10px 0;
+        font-size: 16px;
+      `;
+      panel.appendChild(heading);
+    }
+    
+    const gridContainer = document.createElement('div');
+    gridContainer.className = className;
+    gridContainer.style.cssText = `
+      display: grid;
+      grid-template-columns: repeat(${cols}, 50px);
+      gap: 4px;
+      width: fit-content;
+    `;
+    panel.appendChild(gridContainer);
+    return panel;
+  }
+  
+  private createSlotElement(slot: InventorySlot, area: SlotArea, col: number, row: number = -1): HTMLDivElement {
     const slotElement = document.createElement('div');
     slotElement.style.cssText = `
       width: 50px;
@@ -253,11 +463,13 @@ export class InventoryUI {
       justify-content: center;
       font-size: 24px;
       user-select: none;
+      opacity: ${area === 'hotbar' || this.matchesFilter(slot.item) ? 1 : 0.3};
     `;
     
     if (slot.item) {
       slotElement.innerHTML = `
-        <span style="font-size: 28px;">${slot.item.icon}</span>
+        <span style="font-size: 28px;">${this.escape(slot.item.icon)}</span>
+        ${this.renderQualityBadge(slot.item)}
         ${slot.item.quantity > 1 ? `<span style="
           position: absolute;
           bottom: 2px;
@@ -277,22 +489,31 @@ export class InventoryUI {
       e.preventDefault();
       
       // If this is a hotbar slot and inventory is closed, just select it
-      if (isHotbar && !this.inventorySystem.isInventoryOpen()) {
+      if (area === 'hotbar' && !this.inventorySystem.isInventoryOpen()) {
         this.inventorySystem.selectHotbarSlot(col);
         this.updateHotbar();
         return;
       }
       
-      // Check for shift-click
-      if (e.shiftKey && slot.item && this.inventorySystem.isInventoryOpen()) {
-        this.inventorySystem.quickTransfer(row, col, isHotbar);
+      // A stack still in hand from a right-click is put down here
+      if (this.inventorySystem.getDraggedItem()) {
+        this.inventorySystem.dropItem(row, col, area);
+        this.updateDisplay();
+        return;
+      }
+      
+      // Right-click or shift-press picks up half the stack to split it
+      this.splitPress = null;
+      if (slot.item && (e.button === 2 || e.shiftKey) && this.inventorySystem.isInventoryOpen()) {
+        this.inventorySystem.startDragging(row, col, area, Math.ceil(slot.item.quantity / 2));
+        this.splitPress = { row, col, area, shift: e.shiftKey };
         this.updateDisplay();
         return;
       }
       
       // Otherwise allow dragging
       if (slot.item) {
-        this.inventorySystem.startDragging(row, col, isHotbar);
+        this.inventorySystem.startDragging(row, col, area);
         this.updateDisplay();
       }
     });
@@ -301,15 +522,29 @@ export class InventoryUI {
       e.preventDefault();
       
       // Only handle drops if inventory is open
-      if (this.inventorySystem.isInventoryOpen() && this.inventorySystem.getDraggedItem()) {
-        this.inventorySystem.dropItem(row, col, isHotbar);
-        this.updateDisplay();
+      if (!this.inventorySystem.isInventoryOpen() || !this.inventorySystem.getDraggedItem()) return;
+      
+      const press = this.splitPress;
+      this.splitPress = null;
+      if (press && press.row === row && press.col === col && press.area === area) {
+        // Released without moving: a shift-click quick-transfers the whole stack, while a
+        // right-click keeps the half in hand until the next click
+        if (press.shift && this.inventorySystem.cancelDragging()) {
+          this.inventorySystem.quickTransfer(row, col, area);
+          this.updateDisplay();
+        }
+        return;
       }
+      
+      this.inventorySystem.dropItem(row, col, area);
+      this.updateDisplay();
     });
     
+    slotElement.addEventListener('contextmenu', (e) => e.preventDefault());
+    
     slotElement.addEventListener('mouseenter', () => {
       slotElement.style.background = 'rgba(80, 80, 80, 0.8)';
-      this.hoveredSlot = { row, col, isHotbar };
+      this.hoveredSlot = { row, col, area };
     });
     
     slotElement.addEventListener('mouseleave', () => {
@@ -342,7 +577,8 @@ export class InventoryUI {
           font-size: 28px;
           opacity: 0.8;
         ">
-          ${draggedItem.icon}
+          ${this.escape(draggedItem.icon)}
+          ${this.renderQualityBadge(draggedItem)}
           ${draggedItem.quantity > 1 ? `<span style="
             position: absolute;
             bottom: 2px;
@@ -370,19 +606,54 @@ export class InventoryUI {
   private refreshInventoryGrid(): void {
     if (!this.container) return;
     
-    const gridContainer = this.container.querySelector('div[style*="grid-template-columns"]') as HTMLDivElement;
+    this.fillGrid('.inventory-grid', this.inventorySystem.getGrid(), 'grid');
+    const chest = this.inventorySystem.getContainer();
+    if (chest) {
+      this.fillGrid('.container-grid', chest, 'container');
+    }
+    this.refreshCrafting();
+  }
+  
+  private fillGrid(selector: string, slots: InventorySlot[][], area: SlotArea): void {
+    const gridContainer = this.container?.querySelector(selector);
     if (!gridContainer) return;
     
     gridContainer.innerHTML = '';
+    slots.forEach((slotRow, row) => slotRow.forEach((slot, col) => {
+      gridContainer.appendChild(this.createSlotElement(slot, area, col, row));
+    }));
+  }
+  
+  // One button per craftable item, lit up when the player has the ingredients
+  private refreshCrafting(): void {
+    const crafting = this.container?.querySelector('.crafting-list');
+    if (!crafting) return;
     
-    // Recreate grid slots
-    const grid = this.inventorySystem.getGrid();
-    for (let row = 0; row < 6; row++) {
-      for (let col = 0; col < 6; col++) {
-        const slot = grid[row][col];
-        const slotElement = this.createSlotElement(slot, false, col, row);
-        gridContainer.appendChild(slotElement);
-      }
+    crafting.innerHTML = '';
+    for (const definition of itemRegistry.getAll()) {
+      if (!definition.recipe) continue;
+      
+      const recipe = definition.recipe;
+      const canCraft = this.inventorySystem.canCommit({ remove: recipe, add: [itemRegistry.createItem(definition, 1)] });
+      const ingredients = recipe.map(ingredient => `${ingredient.quantity} ${itemRegistry.get(ingredient.id)?.icon ?? ingredient.id}`).join(' + ');
+      const button = document.createElement('button');
+      button.textContent = `Craft ${definition.icon} ${definition.name} (${ingredients})`;
+      button.disabled = !canCraft;
+      button.style.cssText = `
+        padding: 6px 10px;
+        background: ${canCraft ? 'rgba(46, 204, 113, 0.8)' : 'rgba(80, 80, 80, 0.8)'};
+        color: white;
+        border: 2px solid ${canCraft ? '#27ae60' : '#555'};
+        border-radius: 6px;
+        font-size: 13px;
+        cursor: ${canCraft ? 'pointer' : 'default'};
+      `;
+      button.addEventListener('click', () => {
+        if (this.inventorySystem.craft(definition)) {
+          this.updateDisplay();
+        }
+      });
+      crafting.appendChild(button);
     }
   }
   
@@ -410,6 +681,7 @@ export class InventoryUI {
     this.keyHandler = (e: KeyboardEvent) => {
       // Check if it's a number key 1-6
       const key = e.key;
+      if (e.target instanceof HTMLInputElement) return;
       if (key >= '1' && key <= '6' && this.hoveredSlot && this.inventorySystem.isInventoryOpen()) {
         e.preventDefault();
         e.stopPropagation();
@@ -444,31 +716,19 @@ export class InventoryUI {
   private quickAssignToHotbar(hotbarIndex: number): void {
     if (!this.hoveredSlot) return;
     
-    const sourceSlot = this.hoveredSlot.isHotbar 
-      ? this.inventorySystem.getHotbar()[this.hoveredSlot.col]
-      : this.inventorySystem.getGrid()[this.hoveredSlot.row][this.hoveredSlot.col];
-    
+    const sourceSlot = this.inventorySystem.getSlot(this.hoveredSlot.row, this.hoveredSlot.col, this.hoveredSlot.area);
     const targetSlot = this.inventorySystem.getHotbar()[hotbarIndex];
     
-    if (sourceSlot.item) {
+    if (sourceSlot?.item) {
       // Swap items
       const temp = targetSlot.item;
       targetSlot.item = sourceSlot.item;
       sourceSlot.item = temp;
       
-      // Update only the hotbar and affected grid slot
+      // Update the hotbar and the grid the item came from
       this.updateHotbar();
-      if (this.container && !this.hoveredSlot.isHotbar) {
-        // Update only the specific grid slot
-        const gridContainer = this.container.querySelector('div[style*="grid-template-columns"]') as HTMLDivElement;
-        if (gridContainer) {
-          const slotIndex = this.hoveredSlot.row * 6 + this.hoveredSlot.col;
-          const slotElement = gridContainer.children[slotIndex] as HTMLDivElement;
-          if (slotElement) {
-            const newSlotElement = this.createSlotElement(sourceSlot, false, this.hoveredSlot.col, this.hoveredSlot.row);
-            gridContainer.replaceChild(newSlotElement, slotElement);
-          }
-        }
+      if (this.hoveredSlot.area !== 'hotbar') {
+        this.refreshInventoryGrid();
       }
     }
   }
@@ -1,24 +1,43 @@
 import { Vec2 } from '../utils/math';
+import { CropQuality } from './CropQuality';
+import { SeedTraits } from './SeedGenetics';
+import { ItemData, restoreItem } from './InventorySystem';
 
 export interface ItemDrop {
   id: number;
   position: Vec2;
   itemType: string;
   quantity: number;
+  quality?: CropQuality; // Harvested crops only
+  traits?: SeedTraits; // Crop seeds only
+  data?: ItemData; // Dropped inventory items only
   bobOffset: number;
   bobTime: number;
 }
 
+export interface ItemDropSaveData {
+  x: number;
+  y: number;
+  itemType: string;
+  quantity: number;
+  quality?: CropQuality;
+  traits?: SeedTraits;
+  data?: ItemData;
+}
+
 export class ItemDropManager {
   private drops: Map<number, ItemDrop> = new Map();
   private nextId: number = 1;
   
-  public createDrop(x: number, y: number, itemType: string, quantity: number = 1): void {
+  public createDrop(x: number, y: number, itemType: string, quantity: number = 1, quality?: CropQuality, traits?: SeedTraits, data?: ItemData): void {
     const drop: ItemDrop = {
       id: this.nextId++,
       position: new Vec2(x, y),
       itemType,
       quantity,
+      quality,
+      traits,
+      data,
       bobOffset: 0,
       bobTime: Math.random() * Math.PI * 2 // Random starting phase for bobbing
     };
@@ -34,7 +53,9 @@ export class ItemDropManager {
     });
   }
   
-  public checkPickup(playerX: number, playerY: number, pickupRadius: number = 24): ItemDrop[] {
+  // Drops in reach are offered to `take`; the ones it accepts are removed and returned, the
+  // rest stay on the ground
+  public checkPickup(playerX: number, playerY: number, take: (drop: ItemDrop) => boolean = () => true, pickupRadius: number = 24): ItemDrop[] {
     const pickedUp: ItemDrop[] = [];
     const toRemove: number[] = [];
     
@@ -43,7 +64,7 @@ export class ItemDropManager {
       const dy = drop.position.y - playerY;
       const distSq = dx * dx + dy * dy;
       
-      if (distSq < pickupRadius * pickupRadius) {
+      if (distSq < pickupRadius * pickupRadius && take(drop)) {
         pickedUp.push(drop);
         toRemove.push(id);
       }
@@ -59,6 +80,30 @@ export class ItemDropManager {
     return Array.from(this.drops.values());
   }
   
+  public getSaveData(): ItemDropSaveData[] {
+    return this.getDrops().map(drop => ({
+      x: drop.position.x,
+      y: drop.position.y,
+      itemType: drop.itemType,
+      quantity: drop.quantity,
+      quality: drop.quality,
+      traits: drop.traits,
+      data: drop.data,
+    }));
+  }
+  
+  public loadSaveData(data: ItemDropSaveData[]): void {
+    this.drops.clear();
+    this.nextId = 1;
+    for (const drop of data) {
+      // Checked like an inventory item, since it becomes one when picked up
+      const item = restoreItem({ ...drop, id: drop.itemType });
+      if (item && Number.isFinite(drop.x) && Number.isFinite(drop.y)) {
+        this.createDrop(drop.x, drop.y, item.id, item.quantity, item.quality, item.traits, item.data);
+      }
+    }
+  }
+  
   public clear(): void {
     this.drops.clear();
   }
@@ -0,0 +1,162 @@
+import { InventoryItem, ItemRequest, ItemData } from './InventorySystem';
+import { cropRegistry, CropDefinition } from './CropRegistry';
+import { CropQuality } from './CropQuality';
+import { fertilizerRegistry } from './FertilizerRegistry';
+import { repellentRegistry } from './RepellentRegistry';
+import { sprinklerRegistry } from './SprinklerRegistry';
+import { SeedTraits, traitsEqual } from './SeedGenetics';
+import itemData from './data/items.json';
+
+export type ItemCategory = 'tool' | 'resource' | 'seed' | 'crop' | 'material' | 'fertilizer' | 'repellent' | 'placeable';
+
+// Everything that can sit in an inventory slot or lie on the ground. Inventory items,
+// drops and shop catalogs refer to these by id.
+export interface ItemDefinition {
+  id: string;
+  name: string;
+  icon: string; // Shown in the inventory and tooltips
+  sprite: string; // Texture drawn when the item lies on the ground
+  category: ItemCategory;
+  stackLimit: number; // Most items one slot holds; 1 for items that never stack
+  toolType?: string; // What using the item from the hotbar does
+  buyPrice?: number; // Cost of one purchase at a shop; absent when nobody sells it
+  bundleSize?: number; // Items received per purchase, 1 if absent
+  sellPrice?: number; // Paid per item sold to a shop; absent when nobody buys it
+  recipe?: ItemRequest[]; // Ingredients used up to craft one; absent for items that can't be crafted
+  durability?: number; // Uses a new one lasts before it needs repairing; absent for items that don't wear
+}
+
+export class ItemRegistry {
+  private items: Map<string, ItemDefinition> = new Map();
+  
+  constructor(definitions: ItemDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+  
+  public register(definition: ItemDefinition): void {
+    if (this.items.has(definition.id)) {
+      throw new Error(`Item "${definition.id}" is already registered`);
+    }
+    if (!Number.isInteger(definition.stackLimit) || definition.stackLimit < 1) {
+      throw new Error(`Item "${definition.id}" needs a whole stackLimit of at least 1`);
+    }
+    if (definition.bundleSize !== undefined && (!Number.isInteger(definition.bundleSize) || definition.bundleSize < 1)) {
+      throw new Error(`Item "${definition.id}" needs a whole bundleSize of at least 1`);
+    }
+    if (definition.recipe && (definition.recipe.length === 0 || definition.recipe.some(ingredient => ingredient.quantity < 1))) {
+      throw new Error(`Item "${definition.id}" has an invalid recipe`);
+    }
+    if (definition.durability !== undefined && (!Number.isInteger(definition.durability) || definition.durability < 1)) {
+      throw new Error(`Item "${definition.id}" needs a whole durability of at least 1`);
+    }
+    
+    this.items.set(definition.id, { ...definition });
+  }
+  
+  public get(itemId: string): ItemDefinition | undefined {
+    return this.items.get(itemId);
+  }
+  
+  public getAll(): ItemDefinition[] {
+    return Array.from(this.items.values());
+  }
+  
+  public createItem(definition: ItemDefinition, quantity: number, quality: CropQuality = CropQuality.Normal, traits?: SeedTraits, data?: ItemData): InventoryItem {
+    const item: InventoryItem = {
+      id: definition.id,
+      name: definition.name,
+      icon: definition.icon,
+      quantity,
+      stackable: definition.stackLimit > 1,
+      type: definition.category
+    };
+    if (definition.toolType) {
+      item.toolType = definition.toolType;
+    }
+    // Normal quality, default seed traits and empty data are left off so plain items look like they always have
+    if (quality !== CropQuality.Normal) {
+      item.quality = quality;
+    }
+    if (traits && !traitsEqual(traits)) {
+      item.traits = { ...traits };
+    }
+    // Items that wear start out at full durability unless the caller says otherwise
+    const itemData: ItemData | undefined = definition.durability !== undefined ? { durability: definition.durability, ...data } : data;
+    if (itemData && Object.keys(itemData).length > 0) {
+      item.data = { ...itemData };
+    }
+    return item;
+  }
+}
+
+const STACK_LIMIT = 999;
+
+// A crop's seeds, sold in packs, and its produce
+function cropItems(crop: CropDefinition): ItemDefinition[] {
+  return [
+    {
+      id: crop.seedItem.id,
+      name: crop.seedItem.name,
+      icon: crop.seedItem.icon,
+      sprite: `item_${crop.seedItem.id}`,
+      category: 'seed',
+      stackLimit: STACK_LIMIT,
+      toolType: 'seeds',
+      buyPrice: crop.seedPackPrice,
+      bundleSize: crop.seedPackSize,
+      sellPrice: Math.floor(crop.seedPackPrice / crop.seedPackSize / 2)
+    },
+    {
+      id: crop.harvestItem.id,
+      name: crop.harvestItem.name,
+      icon: crop.harvestItem.icon,
+      sprite: `item_${crop.harvestItem.id}`,
+      category: 'crop',
+      stackLimit: STACK_LIMIT,
+      sellPrice: crop.sellPrice
+    }
+  ];
+}
+
+// Items shipped with the game: the basics in data/items.json, plus the seeds, produce,
+// fertilizer, repellent and sprinklers defined by their own registries
+export const itemRegistry = new ItemRegistry([
+  ...(itemData as ItemDefinition[]),
+  ...cropRegistry.getAll().flatMap(cropItems),
+  ...fertilizerRegistry.getAll().map((fertilizer): ItemDefinition => ({
+    id: fertilizer.id,
+    name: fertilizer.name,
+    icon: fertilizer.icon,
+    sprite: `item_${fertilizer.id}`,
+    category: 'fertilizer',
+    stackLimit: STACK_LIMIT,
+    toolType: 'fertilizer',
+    buyPrice: fertilizer.packPrice,
+    bundleSize: fertilizer.packSize,
+    sellPrice: Math.floor(fertilizer.packPrice / fertilizer.packSize / 2)
+  })),
+  ...repellentRegistry.getAll().map((repellent): ItemDefinition => ({
+    id: repellent.id,
+    name: repellent.name,
+    icon: repellent.icon,
+    sprite: `item_${repellent.id}`,
+    category: 'repellent',
+    stackLimit: STACK_LIMIT,
+    toolType: 'repellent',
+    buyPrice: repellent.packPrice,
+    bundleSize: repellent.packSize,
+    sellPrice: Math.floor(repellent.packPrice / repellent.packSize / 2)
+  })),
+  // A sprinkler on the ground looks the same as a placed one
+  ...sprinklerRegistry.getAll().map((sprinkler): ItemDefinition => ({
+    id: sprinkler.id,
+    name: sprinkler.name,
+    icon: sprinkler.icon,
+    sprite: `sprinkler_${sprinkler.id}`,
+    category: 'placeable',
+    stackLimit: STACK_LIMIT,
+    toolType: 'sprinkler',
+    buyPrice: sprinkler.price,
+    sellPrice: Math.floor(sprinkler.price / 2)
+  }))
+]);
\ No newline at end of file
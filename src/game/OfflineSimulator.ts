@@ -0,0 +1,43 @@
+import { GameClock } from './GameClock';
+import { Calendar } from './Calendar';
+import { TileMap } from './TileMap';
+
+export interface CatchUpResult {
+  seconds: number; // Game seconds simulated
+  days: number; // In-game days that started during the catch-up
+}
+
+// Fast-forwards the world after a save is loaded. Nothing is stepped here: every map's chunks
+// are put away as of the save, then the clock and day count move on, and each chunk catches
+// up through TileMap's own catch-up when it is next loaded, exactly like a chunk the player
+// walked away from. Loading the chunks around the player afterwards catches those up at once.
+export class OfflineSimulator {
+  private clock: GameClock;
+  private calendar: Calendar;
+  private tileMaps: TileMap[];
+  
+  constructor(clock: GameClock, calendar: Calendar, tileMaps: TileMap[]) {
+    this.clock = clock;
+    this.calendar = calendar;
+    this.tileMaps = tileMaps;
+  }
+  
+  public simulate(seconds: number): CatchUpResult {
+    if (seconds <= 0) return { seconds: 0, days: 0 };
+    
+    for (const tileMap of this.tileMaps) {
+      tileMap.unloadAll();
+    }
+    
+    this.calendar.resync();
+    this.clock.setTime(this.clock.now() + seconds * 1000);
+    const days = this.calendar.update();
+    
+    // With nothing loaded this only counts the days, for the chunks to catch up on
+    for (const tileMap of this.tileMaps) {
+      tileMap.updateCrops(0, days);
+    }
+    
+    return { seconds, days };
+  }
+}
\ No newline at end of file
@@ -1,15 +1,27 @@
 import { Vec2 } from '../utils/math';
-import { TileMap, TileType } from './TileMap';
+import { TileMap, TileType, GiantCropChop, HarvestResult, Bounds } from './TileMap';
 import { Inventory, ToolType } from './Inventory';
 import { ItemDropManager } from './ItemDrop';
 import { AudioSystem } from '../engine/AudioSystem';
+import { InventoryItem, InventorySystem, isBroken } from './InventorySystem';
+import { cropRegistry } from './CropRegistry';
+import { itemRegistry } from './ItemRegistry';
+
+export type Facing = 'up' | 'down' | 'left' | 'right';
+
+export interface PlayerSaveData {
+  x: number;
+  y: number;
+  facing: Facing;
+  money: number;
+}
 
 export class Player {
   private position: Vec2;
   private velocity: Vec2;
   private size: Vec2;
   private speed: number;
-  private facing: 'up' | 'down' | 'left' | 'right';
+  private facing: Facing;
   private inventory: Inventory;
   private harvestedCrops: Map<string, number> = new Map();
   private isUsingTool: boolean = false;
@@ -74,13 +86,6 @@ export class Player {
     if (!this.checkCollision(this.position.x, newY, tileMap)) {
       this.position.y = newY;
     }
-    
-    // Keep player within world bounds
-    const worldWidth = tileMap.getWorldWidth();
-    const worldHeight = tileMap.getWorldHeight();
-    
-    this.position.x = Math.max(this.size.x / 2, Math.min(worldWidth - this.size.x / 2, this.position.x));
-    this.position.y = Math.max(this.size.y / 2, Math.min(worldHeight - this.size.y / 2, this.position.y));
   }
   
   private checkCollision(x: number, y: number, tileMap: TileMap): boolean {
@@ -104,10 +109,22 @@ export class Player {
     return false;
   }
   
-  public interact(tileMap: TileMap, itemDropManager: ItemDropManager, audioSystem?: AudioSystem, toolTypeOverride?: string): void {
+  // Takes a use off a tool that wears, once it has actually done something
+  private wearTool(item: InventoryItem): void {
+    const maxDurability = itemRegistry.get(item.id)?.durability;
+    if (item.type !== 'tool' || maxDurability === undefined) return;
+    
+    const durability = item.data?.durability ?? maxDurability;
+    item.data = { ...item.data, durability: Math.max(0, durability - 1) };
+  }
+  
+  public interact(tileMap: TileMap, itemDropManager: ItemDropManager, audioSystem?: AudioSystem, toolTypeOverride?: string, item?: InventoryItem): void {
     // Don't allow tool use while animating
     if (this.isUsingTool) return;
     
+    // A broken tool does nothing until it's repaired
+    if (item && isBroken(item)) return;
+    
     // Start tool animation
     this.isUsingTool = true;
     this.toolUseTime = 0;
@@ -133,81 +150,183 @@ export class Player {
     }
     
     const toolType = toolTypeOverride || this.inventory.getSelectedTool().type;
+    let used = false; // Whether the tile or what's on it changed
     
     switch (toolType) {
       case ToolType.Hoe:
       case 'hoe':
         if (tileMap.tillTile(targetX, targetY)) {
           audioSystem?.playSound('hoe', 0.5);
+          used = true;
         }
         break;
         
       case ToolType.Seeds:
       case 'seeds':
-        if (tileMap.plantSeed(targetX, targetY)) {
+        const seedCrop = cropRegistry.getBySeedItem(item?.id || '');
+        if (seedCrop && tileMap.plantSeed(targetX, targetY, seedCrop.id, item?.traits)) {
           audioSystem?.playSound('plant', 0.4);
+          used = true;
+        }
+        break;
+        
+      case 'fertilizer':
+        if (item && tileMap.applyFertilizer(targetX, targetY, item.id)) {
+          audioSystem?.playSound('plant', 0.3);
+          used = true;
         }
         break;
         
+      case 'repellent':
+        if (item && tileMap.applyRepellent(targetX, targetY, item.id)) {
+          audioSystem?.playSound('watering', 0.3);
+          used = true;
+        }
+        break;
+        
+      case 'sprinkler':
+        if (item && tileMap.placeSprinkler(targetX, targetY, item.id)) {
+          audioSystem?.playSound('hoe', 0.4);
+          used = true;
+        }
+        break;
+        
+      case 'chest':
+        if (tileMap.placeChest(targetX, targetY)) {
+          audioSystem?.playSound('hoe', 0.4);
+          used = true;
+        }
+        break;
+      
       case ToolType.WateringCan:
       case 'wateringCan':
         if (tileMap.waterTile(targetX, targetY)) {
           audioSystem?.playSound('watering', 0.4);
+          used = true;
         }
         break;
         
       case ToolType.Scythe:
       case 'scythe':
-        const crop = tileMap.harvestCrop(targetX, targetY);
-        if (crop) {
+        const harvest = tileMap.harvestCrop(targetX, targetY);
+        const crop = harvest ? cropRegistry.get(harvest.cropType) : undefined;
+        if (harvest && crop) {
           audioSystem?.playSound('scythe', 0.5);
+          used = true;
           // Drop the crop on the ground instead of directly collecting
-          itemDropManager.createDrop(targetX, targetY, crop, 1);
-          // Also drop some seeds
-          itemDropManager.createDrop(targetX + 10, targetY - 10, 'seeds', 2);
+          itemDropManager.createDrop(targetX, targetY, crop.harvestItem.id, harvest.yield, harvest.quality);
+          this.dropHarvestSeeds(harvest, targetX, targetY, itemDropManager);
+        } else if (tileMap.clearDeadPlant(targetX, targetY) || tileMap.clearWeeds(targetX, targetY)) {
+          audioSystem?.playSound('scythe', 0.4);
+          used = true;
         }
         break;
         
       case ToolType.Axe:
       case 'axe':
+        // Knock a sprinkler loose before anything else
+        const sprinklerId = tileMap.removeSprinkler(targetX, targetY);
+        if (sprinklerId) {
+          audioSystem?.playSound('axe', 0.4);
+          used = true;
+          itemDropManager.createDrop(targetX, targetY, sprinklerId, 1);
+          break;
+        }
+        
+        if (tileMap.removeChest(targetX, targetY)) {
+          audioSystem?.playSound('axe', 0.4);
+          used = true;
+          itemDropManager.createDrop(targetX, targetY, 'chest', 1);
+          break;
+        }
+        
+        const giantChop = tileMap.chopGiantCrop(targetX, targetY);
+        if (giantChop) {
+          audioSystem?.playSound('axe', 0.6);
+          used = true;
+          this.dropGiantHarvest(giantChop, itemDropManager);
+          break;
+        }
+        
         const treeChopped = tileMap.chopTree(targetX, targetY);
         audioSystem?.playSound('axe', 0.6);
-        if (treeChopped) {
+        used = treeChopped !== false;
+        if (treeChopped && treeChopped !== 'hit') {
           // Drop wood when tree is fully chopped
           itemDropManager.createDrop(targetX, targetY, 'wood', 3);
           itemDropManager.createDrop(targetX - 10, targetY + 10, 'wood', 2);
         }
         break;
     }
+    
+    if (used && item) {
+      this.wearTool(item);
+    }
   }
   
-  public interactAt(worldX: number, worldY: number, tileMap: TileMap, itemDropManager: ItemDropManager, audioSystem?: AudioSystem, toolTypeOverride?: string): void {
+  public interactAt(worldX: number, worldY: number, tileMap: TileMap, itemDropManager: ItemDropManager, audioSystem?: AudioSystem, toolTypeOverride?: string, item?: InventoryItem): void {
     // Don't allow tool use while animating
     if (this.isUsingTool) return;
     
+    // A broken tool does nothing until it's repaired
+    if (item && isBroken(item)) return;
+    
     // Start tool animation
     this.isUsingTool = true;
     this.toolUseTime = 0;
     
     const toolType = toolTypeOverride || this.inventory.getSelectedTool().type;
+    let used = false; // Whether the tile or what's on it changed
     
     switch (toolType) {
       case ToolType.Hoe:
         if (tileMap.tillTile(worldX, worldY)) {
           audioSystem?.playSound('hoe', 0.5);
+          used = true;
         }
         break;
         
       case ToolType.Seeds:
       case 'seeds':
-        if (tileMap.plantSeed(worldX, worldY)) {
+        const seedCrop = cropRegistry.getBySeedItem(item?.id || '');
+        if (seedCrop && tileMap.plantSeed(worldX, worldY, seedCrop.id, item?.traits)) {
           audioSystem?.playSound('plant', 0.4);
+          used = true;
+        }
+        break;
+      
+      case 'fertilizer':
+        if (item && tileMap.applyFertilizer(worldX, worldY, item.id)) {
+          audioSystem?.playSound('plant', 0.3);
+          used = true;
+        }
+        break;
+        
+      case 'repellent':
+        if (item && tileMap.applyRepellent(worldX, worldY, item.id)) {
+          audioSystem?.playSound('watering', 0.3);
+          used = true;
+        }
+        break;
+        
+      case 'sprinkler':
+        if (item && tileMap.placeSprinkler(worldX, worldY, item.id)) {
+          audioSystem?.playSound('hoe', 0.4);
+          used = true;
+        }
+        break;
+        
+      case 'chest':
+        if (tileMap.placeChest(worldX, worldY)) {
+          audioSystem?.playSound('hoe', 0.4);
+          used = true;
         }
         break;
       
       case 'treeSeeds':
         if (tileMap.plantSeed(worldX, worldY, 'tree')) {
           audioSystem?.playSound('plant', 0.4);
+          used = true;
         }
         break;
         
@@ -215,25 +334,55 @@ export class Player {
       case 'wateringCan':
         if (tileMap.waterTile(worldX, worldY)) {
           audioSystem?.playSound('watering', 0.4);
+          used = true;
         }
         break;
         
       case ToolType.Scythe:
       case 'scythe':
-        const crop = tileMap.harvestCrop(worldX, worldY);
-        if (crop) {
+        const harvest = tileMap.harvestCrop(worldX, worldY);
+        const crop = harvest ? cropRegistry.get(harvest.cropType) : undefined;
+        if (harvest && crop) {
           audioSystem?.playSound('scythe', 0.5);
+          used = true;
           // Drop the crop on the ground instead of directly collecting
-          itemDropManager.createDrop(worldX, worldY, crop, 1);
-          // Also drop some seeds
-          itemDropManager.createDrop(worldX + 10, worldY - 10, 'seeds', 2);
+          itemDropManager.createDrop(worldX, worldY, crop.harvestItem.id, harvest.yield, harvest.quality);
+          this.dropHarvestSeeds(harvest, worldX, worldY, itemDropManager);
+        } else if (tileMap.clearDeadPlant(worldX, worldY) || tileMap.clearWeeds(worldX, worldY)) {
+          audioSystem?.playSound('scythe', 0.4);
+          used = true;
         }
         break;
         
       case ToolType.Axe:
       case 'axe':
+        // Knock a sprinkler loose before anything else
+        const sprinklerId = tileMap.removeSprinkler(worldX, worldY);
+        if (sprinklerId) {
+          audioSystem?.playSound('axe', 0.4);
+          used = true;
+          itemDropManager.createDrop(worldX, worldY, sprinklerId, 1);
+          break;
+        }
+        
+        if (tileMap.removeChest(worldX, worldY)) {
+          audioSystem?.playSound('axe', 0.4);
+          used = true;
+          itemDropManager.createDrop(worldX, worldY, 'chest', 1);
+          break;
+        }
+        
+        const giantChop = tileMap.chopGiantCrop(worldX, worldY);
+        if (giantChop) {
+          audioSystem?.playSound('axe', 0.6);
+          used = true;
+          this.dropGiantHarvest(giantChop, itemDropManager);
+          break;
+        }
+        
         const treeChopped = tileMap.chopTree(worldX, worldY);
         audioSystem?.playSound('axe', 0.6);
+        used = treeChopped !== false;
         if (treeChopped === true) {
           // Drop wood when tree is fully chopped
           itemDropManager.createDrop(worldX, worldY, 'wood', 3);
@@ -246,16 +395,64 @@ export class Player {
         }
         break;
     }
+    
+    if (used && item) {
+      this.wearTool(item);
+    }
+  }
+  
+  // Saved seeds land beside the crop, each kind (and any hybrid) in its own pile
+  private dropHarvestSeeds(harvest: HarvestResult, x: number, y: number, itemDropManager: ItemDropManager): void {
+    harvest.seeds.forEach((seeds, index) => {
+      const seedCrop = cropRegistry.get(seeds.cropType);
+      if (seedCrop) {
+        itemDropManager.createDrop(x + 10, y - 10 + index * 12, seedCrop.seedItem.id, seeds.quantity, undefined, seeds.traits);
+      }
+    });
+  }
+  
+  // A felled giant crop spills its harvest in a few piles around where it stood
+  private dropGiantHarvest(chop: GiantCropChop, itemDropManager: ItemDropManager): void {
+    const crop = cropRegistry.get(chop.cropType);
+    if (!chop.felled || !crop?.giant) return;
+    
+    const piles = [[-12, -8], [12, -6], [0, 10]];
+    const perPile = Math.ceil(crop.giant.yield / piles.length);
+    let remaining = crop.giant.yield;
+    for (const [dx, dy] of piles) {
+      const quantity = Math.min(perPile, remaining);
+      if (quantity <= 0) break;
+      itemDropManager.createDrop(chop.centerX + dx, chop.centerY + dy, crop.harvestItem.id, quantity);
+      remaining -= quantity;
+    }
   }
   
   public getPosition(): Vec2 {
     return this.position;
   }
   
+  // Puts the player down somewhere without walking there, e.g. on the far side of a door
+  public setPosition(x: number, y: number): void {
+    // In place, since callers hold on to the vector from getPosition
+    this.position.x = x;
+    this.position.y = y;
+    this.velocity = new Vec2(0, 0);
+  }
+  
   public getSize(): Vec2 {
     return this.size;
   }
   
+  // The box checked against solid tiles
+  public getBounds(): Bounds {
+    return {
+      left: this.position.x - this.size.x / 2,
+      top: this.position.y - this.size.y / 2,
+      right: this.position.x + this.size.x / 2,
+      bottom: this.position.y + this.size.y / 2,
+    };
+  }
+  
   public getFacing(): string {
     return this.facing;
   }
@@ -276,76 +473,29 @@ export class Player {
     return this.isUsingTool ? this.toolUseTime / this.toolUseDuration : 0;
   }
   
-  public collectItems(itemDropManager: ItemDropManager, audioSystem?: AudioSystem, inventorySystem?: any): void {
-    const pickedUp = itemDropManager.checkPickup(this.position.x, this.position.y);
-    
-    pickedUp.forEach(drop => {
-      let added = false;
-      
+  // Drops that don't fit in the inventory are left lying where they are
+  public collectItems(itemDropManager: ItemDropManager, audioSystem?: AudioSystem, inventorySystem?: InventorySystem): void {
+    const pickedUp = itemDropManager.checkPickup(this.position.x, this.position.y, drop => {
       if (inventorySystem) {
-        // Create inventory item based on drop type
-        let item = null;
-        
-        if (drop.itemType === 'seeds') {
-          item = {
-            id: 'carrot_seeds',
-            name: 'Carrot Seeds',
-            icon: '🥕',
-            quantity: drop.quantity,
-            stackable: true,
-            type: 'seed' as const,
-            toolType: 'seeds'
-          };
-        } else if (drop.itemType === 'carrot') {
-          item = {
-            id: 'carrot',
-            name: 'Carrot',
-            icon: '🥕',
-            quantity: drop.quantity,
-            stackable: true,
-            type: 'crop' as const
-          };
-        } else if (drop.itemType === 'wood') {
-          item = {
-            id: 'wood',
-            name: 'Wood',
-            icon: '🪵',
-            quantity: drop.quantity,
-            stackable: true,
-            type: 'resource' as const
-          };
-        } else if (drop.itemType === 'tree_seeds') {
-          item = {
-            id: 'tree_seeds',
-            name: 'Tree Seeds',
-            icon: '🌰',
-            quantity: drop.quantity,
-            stackable: true,
-            type: 'seed' as const,
-            toolType: 'treeSeeds'
-          };
-        }
-        
-        if (item) {
-          added = inventorySystem.addItem(item);
-        }
-      } else {
-        // Fallback to old system
-        if (drop.itemType === 'seeds') {
-          this.inventory.addSeeds(drop.quantity);
-          added = true;
-        } else {
-          const currentCount = this.harvestedCrops.get(drop.itemType) || 0;
-          this.harvestedCrops.set(drop.itemType, currentCount + drop.quantity);
-          added = true;
-        }
+        const definition = itemRegistry.get(drop.itemType);
+        const item = definition ? itemRegistry.createItem(definition, drop.quantity, drop.quality, drop.traits, drop.data) : null;
+        return !!item && inventorySystem.commit({ add: [item] });
       }
       
-      if (added) {
-        console.log(`Picked up ${drop.quantity} ${drop.itemType}!`);
-        // Play pickup sound
-        audioSystem?.playSound('pickup', 0.4);
+      // Fallback to old system
+      if (cropRegistry.getBySeedItem(drop.itemType)) {
+        this.inventory.addSeeds(drop.quantity);
+      } else {
+        const currentCount = this.harvestedCrops.get(drop.itemType) || 0;
+        this.harvestedCrops.set(drop.itemType, currentCount + drop.quantity);
       }
+      return true;
+    });
+    
+    pickedUp.forEach(drop => {
+      console.log(`Picked up ${drop.quantity} ${drop.itemType}!`);
+      // Play pickup sound
+      audioSystem?.playSound('pickup', 0.4);
     });
   }
   
@@ -365,6 +515,23 @@ export class Player {
     return false;
   }
   
+  public getSaveData(): PlayerSaveData {
+    return {
+      x: this.position.x,
+      y: this.position.y,
+      facing: this.facing,
+      money: this.money,
+    };
+  }
+  
+  public loadSaveData(data: PlayerSaveData): void {
+    this.setPosition(data.x, data.y);
+    this.facing = data.facing;
+    this.money = data.money;
+    this.isUsingTool = false;
+    this.toolUseTime = 0;
+  }
+  
   public getAnimationTime(): number {
     return this.animationTime;
   }
@@ -0,0 +1,47 @@
+import repellentData from './data/repellents.json';
+
+// Sprayed over a patch of soil to drive off pests. It cures any crop already infested
+// in the patch and keeps pests away for a number of nights.
+export interface RepellentDefinition {
+  id: string; // Also the inventory item id
+  name: string;
+  icon: string;
+  color: string; // Shown on protected soil and in the tile highlight
+  range: number; // Tiles covered in each direction around the one sprayed
+  days: number; // Nights the soil stays protected
+  packSize: number; // Bottles per purchase at the shop
+  packPrice: number;
+}
+
+export class RepellentRegistry {
+  private repellents: Map<string, RepellentDefinition> = new Map();
+  
+  constructor(definitions: RepellentDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+  
+  public register(definition: RepellentDefinition): void {
+    if (this.repellents.has(definition.id)) {
+      throw new Error(`Repellent "${definition.id}" is already registered`);
+    }
+    if (!Number.isInteger(definition.range) || definition.range < 0) {
+      throw new Error(`Repellent "${definition.id}" needs a whole, non-negative range`);
+    }
+    if (!Number.isInteger(definition.days) || definition.days <= 0) {
+      throw new Error(`Repellent "${definition.id}" must last at least one night`);
+    }
+    
+    this.repellents.set(definition.id, { ...definition });
+  }
+  
+  public get(repellentId: string): RepellentDefinition | undefined {
+    return this.repellents.get(repellentId);
+  }
+  
+  public getAll(): RepellentDefinition[] {
+    return Array.from(this.repellents.values());
+  }
+}
+
+// Repellents shipped with the game; add new ones to data/repellents.json
+export const repellentRegistry = new RepellentRegistry(repellentData as RepellentDefinition[]);
\ No newline at end of file
@@ -0,0 +1,227 @@
+// Current save schema version; bump it and register a migration whenever a saved shape changes
+export const SAVE_VERSION = 7;
+
+// A save as stored, of whatever version it was written with
+export interface VersionedSave {
+  version: number;
+}
+
+// Saves are migrated as plain JSON; each migration only knows the shape of its own version
+export type SaveMigration<From extends VersionedSave = VersionedSave, To extends VersionedSave = VersionedSave> = (data: From) => To;
+
+export class SaveVersionError extends Error {
+  public readonly saveVersion: number;
+  
+  constructor(saveVersion: number) {
+    super(`Save was made with a newer version of the game (save version ${saveVersion}, this build supports up to ${SAVE_VERSION})`);
+    this.name = 'SaveVersionError';
+    this.saveVersion = saveVersion;
+  }
+}
+
+export class SaveMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SaveMigrationError';
+  }
+}
+
+// Keyed by the version a migration upgrades *from*
+const migrations: Map<number, SaveMigration> = new Map();
+
+export function registerMigration<From extends VersionedSave, To extends VersionedSave>(fromVersion: number, migration: SaveMigration<From, To>): void {
+  if (migrations.has(fromVersion)) {
+    throw new Error(`Save migration from version ${fromVersion} is already registered`);
+  }
+  // Only ever handed saves of the version it's registered from
+  migrations.set(fromVersion, data => migration(data as From));
+}
+
+function isVersionedSave(data: unknown): data is VersionedSave {
+  return typeof data === 'object' && data !== null && 'version' in data && typeof data.version === 'number';
+}
+
+// Upgrades save data to SAVE_VERSION, one registered step at a time
+export function migrateSave(data: unknown): VersionedSave {
+  if (!isVersionedSave(data)) {
+    throw new SaveMigrationError('Save data has no schema version');
+  }
+  if (data.version > SAVE_VERSION) {
+    throw new SaveVersionError(data.version);
+  }
+  
+  let migrated = data;
+  while (migrated.version < SAVE_VERSION) {
+    const migration = migrations.get(migrated.version);
+    if (!migration) {
+      throw new SaveMigrationError(`No migration registered from save version ${migrated.version}`);
+    }
+    
+    const fromVersion = migrated.version;
+    migrated = migration(migrated);
+    migrated.version = fromVersion + 1;
+  }
+  
+  return migrated;
+}
+
+// Older save shapes, only as far as the migrations read and change them
+interface LegacyTile {
+  type: number;
+  solid: boolean;
+  treeVariant?: number;
+  originalTreeVariant?: number;
+}
+
+interface LegacyItem {
+  id: string;
+  toolType?: string;
+}
+
+interface LegacyItemDrop {
+  itemType: string;
+}
+
+interface LegacyChunk {
+  chunkX: number;
+  chunkY: number;
+  tiles: LegacyTile[][];
+  lastSimulated: number;
+  lastDay: number;
+}
+
+// Versions 1-2: one fixed-size map
+interface SaveV1 extends VersionedSave {
+  clock: { time: number };
+  tileMap: { width: number, height: number, tileSize: number, tiles: LegacyTile[][] };
+  inventory: { hotbar: (LegacyItem | null)[], grid: (LegacyItem | null)[][] };
+  itemDrops: LegacyItemDrop[];
+}
+
+// Version 3: the map gained a seed
+interface SaveV3 extends SaveV1 {
+  tileMap: SaveV1['tileMap'] & { seed: number, randomState: number };
+}
+
+// Versions 4-5: the map is stored as chunks
+interface ChunkedTileMap {
+  seed: number;
+  randomState: number;
+  tileSize: number;
+  dayCount: number;
+  chunks: LegacyChunk[];
+}
+
+interface SaveV4 extends Omit<SaveV3, 'tileMap'> {
+  tileMap: ChunkedTileMap;
+}
+
+// Version 6: any number of maps
+interface SaveV6 extends Omit<SaveV4, 'tileMap' | 'itemDrops'> {
+  maps: { id: string, tileMap: ChunkedTileMap, itemDrops: LegacyItemDrop[] }[];
+  currentMap: string;
+}
+
+// Version 1 -> 2: backfill tile and item fields that were added after the first save format.
+// Trees always carry treeVariant, stumps always carry originalTreeVariant, and
+// usable items always carry the toolType string the input handlers switch on.
+const LEGACY_TOOL_TYPES: Record<string, string> = {
+  hoe: 'hoe',
+  axe: 'axe',
+  watering_can: 'wateringCan',
+  scythe: 'scythe',
+  carrot_seeds: 'seeds',
+  tree_seeds: 'treeSeeds',
+};
+
+registerMigration(1, (data: SaveV1): SaveV1 => {
+  const TREE = 6;
+  const TREE_STUMP = 7;
+  
+  for (const row of data.tileMap.tiles) {
+    for (const tile of row) {
+      if (tile.type === TREE && tile.treeVariant === undefined) {
+        tile.treeVariant = 1;
+      } else if (tile.type === TREE_STUMP && tile.originalTreeVariant === undefined) {
+        tile.originalTreeVariant = 1;
+      }
+    }
+  }
+  
+  const backfillToolType = (item: LegacyItem | null) => {
+    if (item && !item.toolType && LEGACY_TOOL_TYPES[item.id]) {
+      item.toolType = LEGACY_TOOL_TYPES[item.id];
+    }
+  };
+  data.inventory.hotbar.forEach(backfillToolType);
+  data.inventory.grid.forEach(row => row.forEach(backfillToolType));
+  
+  return data;
+});
+
+// Version 2 -> 3: worlds became seeded. Older saves have no seed, so give them a fixed
+// one; their tiles are stored in full, so it only affects future gameplay rolls.
+registerMigration(2, (data: SaveV1): SaveV3 => ({
+  ...data,
+  tileMap: { ...data.tileMap, seed: 0, randomState: 0x9E3779B9 },
+}));
+// Version 3 -> 4: the world became chunked. The old fixed map is cut into 16x16 chunks
+// and kept in full (the terrain generator has changed, so the seed can't reproduce it);
+// cells of edge chunks past the old map become grass.
+registerMigration(3, (data: SaveV3): SaveV4 => {
+  const CHUNK_SIZE = 16;
+  const GRASS = 0;
+  const oldTiles = data.tileMap.tiles;
+  const chunks: LegacyChunk[] = [];
+  
+  for (let chunkY = 0; chunkY * CHUNK_SIZE < data.tileMap.height; chunkY++) {
+    for (let chunkX = 0; chunkX * CHUNK_SIZE < data.tileMap.width; chunkX++) {
+      const tiles: LegacyTile[][] = [];
+      for (let y = 0; y < CHUNK_SIZE; y++) {
+        tiles[y] = [];
+        for (let x = 0; x < CHUNK_SIZE; x++) {
+          const row = oldTiles[chunkY * CHUNK_SIZE + y];
+          const tile = row ? row[chunkX * CHUNK_SIZE + x] : undefined;
+          tiles[y][x] = tile ?? { type: GRASS, solid: false };
+        }
+      }
+      chunks.push({ chunkX, chunkY, tiles, lastSimulated: data.clock.time, lastDay: 0 });
+    }
+  }
+  
+  return {
+    ...data,
+    tileMap: {
+      seed: data.tileMap.seed,
+      randomState: data.tileMap.randomState,
+      tileSize: data.tileMap.tileSize,
+      dayCount: 0,
+      chunks,
+    },
+  };
+});
+// Version 4 -> 5: crops moved to the crop registry and dropped seeds are named by their
+// seed item, so the generic 'seeds' drop (always carrot seeds) needs its real id.
+registerMigration(4, (data: SaveV4): SaveV4 => {
+  for (const drop of data.itemDrops) {
+    if (drop.itemType === 'seeds') {
+      drop.itemType = 'carrot_seeds';
+    }
+  }
+  return data;
+});
+// Version 5 -> 6: the farm stopped being the only map. Its tiles and dropped items move
+// into the list of maps and the player is on it; maps missing from a save (here, the
+// greenhouse) are set up fresh when it's loaded.
+registerMigration(5, (data: SaveV4): SaveV6 => {
+  const { tileMap, itemDrops, ...rest } = data;
+  return {
+    ...rest,
+    maps: [{ id: 'farm', tileMap, itemDrops }],
+    currentMap: 'farm',
+  };
+});
+// Version 6 -> 7: items in the inventory and chests are saved as their id and own state, and
+// everything else is looked up on load. Loading skips the extra fields older saves carry, so
+// nothing changes here; the bump keeps older builds from loading the slimmer items.
+registerMigration(6, (data: SaveV6): SaveV6 => data);
\ No newline at end of file
@@ -0,0 +1,306 @@
+import { SaveSystem, SaveSlotMeta, SaveVersionError, SaveMigrationError, SAVE_SLOT_COUNT } from './SaveSystem';
+import { Game } from './Game';
+import { Random } from '../utils/random';
+
+export class SaveSlotsUI {
+  private container: HTMLDivElement | null = null;
+  private saveSystem: SaveSystem;
+  private game: Game;
+  private statusMessage: string = '';
+  private simulateTimeAway: boolean = true;
+  
+  constructor(saveSystem: SaveSystem, game: Game) {
+    this.saveSystem = saveSystem;
+    this.game = game;
+  }
+  
+  public isOpen(): boolean {
+    return this.container !== null;
+  }
+  
+  public toggle(): void {
+    if (this.container) {
+      this.hide();
+    } else {
+      this.show();
+    }
+  }
+  
+  public show(): void {
+    if (this.container) return;
+    
+    this.container = document.createElement('div');
+    this.container.id = 'saveSlots';
+    this.container.style.cssText = `
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      background: rgba(0, 0, 0, 0.92);
+      border: 3px solid #4CAF50;
+      border-radius: 10px;
+      padding: 20px;
+      z-index: 1000;
+      box-shadow: 0 0 20px rgba(0, 0, 0, 0.8);
+      width: 520px;
+      color: white;
+      font-family: Arial, sans-serif;
+    `;
+    
+    // Single delegated listener for all slot buttons
+    this.container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      if (target.id === 'newGameButton') {
+        this.startNewGame();
+        return;
+      }
+      
+      const action = target.dataset.action;
+      const slot = parseInt(target.dataset.slot || '', 10);
+      if (!action || isNaN(slot)) return;
+      this.handleAction(action, slot);
+    });
+    
+    document.body.appendChild(this.container);
+    this.statusMessage = '';
+    this.refresh();
+  }
+  
+  public hide(): void {
+    if (this.container) {
+      this.container.remove();
+      this.container = null;
+    }
+  }
+  
+  public refresh(): void {
+    if (!this.container) return;
+    
+    let slotsHtml = '';
+    for (let slot = 0; slot < SAVE_SLOT_COUNT; slot++) {
+      slotsHtml += this.renderSlot(slot, this.saveSystem.getMeta(slot));
+    }
+    
+    this.container.innerHTML = `
+      <h2 style="text-align: center; margin: 0 0 16px 0; font-size: 24px;">Saved Farms</h2>
+      <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 16px;">
+        <label for="farmNameInput" style="font-size: 14px;">Farm name:</label>
+        <input id="farmNameInput" type="text" maxlength="24" value="${this.escape(this.game.getFarmName())}" style="
+          flex: 1;
+          background: #222;
+          color: white;
+          border: 1px solid #555;
+          border-radius: 4px;
+          padding: 4px 8px;
+        " />
+      </div>
+      <div style="display: flex; align-items: center; gap: 8px; margin-bottom: 16px;">
+        <label for="seedInput" style="font-size: 14px;">New farm seed:</label>
+        <input id="seedInput" type="text" maxlength="32" placeholder="Random" style="
+          flex: 1;
+          background: #222;
+          color: white;
+          border: 1px solid #555;
+          border-radius: 4px;
+          padding: 4px 8px;
+        " />
+        <button id="newGameButton" style="
+          background: #333;
+          color: white;
+          border: 1px solid #555;
+          border-radius: 4px;
+          padding: 4px 8px;
+          font-size: 12px;
+          cursor: pointer;
+        ">New Farm</button>
+      </div>
+      <div style="color: #AAA; font-size: 12px; margin: -10px 0 16px 0;">Current seed: ${this.game.getSeed()}</div>
+      <label style="display: flex; align-items: center; gap: 6px; margin-bottom: 12px; font-size: 14px;">
+        <input id="simulateTimeAway" type="checkbox" ${this.simulateTimeAway ? 'checked' : ''} />
+        Simulate time passed since the save when loading
+      </label>
+      ${slotsHtml}
+      <p style="color: #FFD700; text-align: center; min-height: 18px; margin: 10px 0 0 0; font-size: 14px;">${this.escape(this.statusMessage)}</p>
+      <p style="color: #AAA; text-align: center; margin: 6px 0 0 0; font-size: 14px;">Press Escape to close</p>
+    `;
+    
+    const nameInput = this.container.querySelector('#farmNameInput') as HTMLInputElement | null;
+    nameInput?.addEventListener('change', () => {
+      this.game.setFarmName(nameInput.value);
+    });
+    
+    const simulateInput = this.container.querySelector('#simulateTimeAway') as HTMLInputElement | null;
+    simulateInput?.addEventListener('change', () => {
+      this.simulateTimeAway = simulateInput.checked;
+    });
+  }
+  
+  private renderSlot(slot: number, meta: SaveSlotMeta | null): string {
+    const buttonStyle = `
+      background: #333;
+      color: white;
+      border: 1px solid #555;
+      border-radius: 4px;
+      padding: 4px 8px;
+      font-size: 12px;
+      cursor: pointer;
+    `;
+    
+    const details = meta ? `
+      <div style="font-weight: bold;">${this.escape(meta.farmName)}</div>
+      <div style="color: #AAA; font-size: 12px;">${this.escape(meta.date)} · ${this.escape(String(meta.money))} coins</div>
+      <div style="color: #AAA; font-size: 12px;">Played ${this.formatPlayTime(meta.playTime)} · Saved ${new Date(meta.savedAt).toLocaleString()}</div>
+    ` : `
+      <div style="color: #777; font-style: italic;">Empty slot</div>
+    `;
+    
+    const thumbnail = meta && meta.thumbnail
+      ? `<img src="${this.escape(meta.thumbnail)}" style="width: 96px; height: 72px; border: 1px solid #555; border-radius: 4px; image-rendering: pixelated;">`
+      : `<div style="width: 96px; height: 72px; border: 1px dashed #555; border-radius: 4px;"></div>`;
+    
+    return `
+      <div style="display: flex; gap: 12px; align-items: center; padding: 8px; margin-bottom: 8px; background: rgba(50, 50, 50, 0.8); border-radius: 6px;">
+        ${thumbnail}
+        <div style="flex: 1;">
+          <div style="color: #4CAF50; font-size: 12px;">Slot ${slot + 1}</div>
+          ${details}
+        </div>
+        <div style="display: grid; grid-template-columns: repeat(2, auto); gap: 4px;">
+          <button data-action="save" data-slot="${slot}" style="${buttonStyle}">Save</button>
+          <button data-action="load" data-slot="${slot}" style="${buttonStyle}" ${meta ? '' : 'disabled'}>Load</button>
+          <button data-action="export" data-slot="${slot}" style="${buttonStyle}" ${meta ? '' : 'disabled'}>Export</button>
+          <button data-action="import" data-slot="${slot}" style="${buttonStyle}">Import</button>
+          <button data-action="delete" data-slot="${slot}" style="${buttonStyle}" ${meta ? '' : 'disabled'}>Delete</button>
+        </div>
+      </div>
+    `;
+  }
+  
+  private handleAction(action: string, slot: number): void {
+    switch (action) {
+      case 'save':
+        this.statusMessage = this.game.saveGame(slot) ? `Saved to slot ${slot + 1}` : 'Save failed';
+        break;
+      
+      case 'load':
+        try {
+          this.statusMessage = this.game.loadGame(slot, this.simulateTimeAway) ? `Loaded slot ${slot + 1}` : 'Load failed';
+        } catch (error) {
+          console.error(`Failed to load slot ${slot + 1}:`, error);
+          this.statusMessage = this.describeError(error);
+        }
+        break;
+      
+      case 'export':
+        try {
+          this.exportSlot(slot);
+        } catch (error) {
+          console.error(`Failed to export slot ${slot + 1}:`, error);
+          this.statusMessage = this.describeError(error);
+        }
+        break;
+      
+      case 'import':
+        this.importSlot(slot);
+        return; // Refreshes once the file has been read
+      
+      case 'delete':
+        if (confirm(`Delete the farm in slot ${slot + 1}?`)) {
+          this.saveSystem.delete(slot);
+          this.statusMessage = `Deleted slot ${slot + 1}`;
+        }
+        break;
+    }
+    
+    this.refresh();
+  }
+  
+  private startNewGame(): void {
+    if (!confirm('Start a new farm? Unsaved progress will be lost.')) return;
+    
+    const seedInput = this.container?.querySelector('#seedInput') as HTMLInputElement | null;
+    const seedText = seedInput?.value.trim() || '';
+    const seed = seedText ? Random.seedFromString(seedText) : Random.randomSeed();
+    
+    this.game.newGame(seed);
+    this.statusMessage = `Started a new farm with seed ${seed}`;
+    this.refresh();
+  }
+  
+  private exportSlot(slot: number): void {
+    const json = this.saveSystem.exportSlot(slot);
+    if (!json) {
+      this.statusMessage = 'Nothing to export';
+      return;
+    }
+    
+    const meta = this.saveSystem.getMeta(slot);
+    const fileName = `${(meta?.farmName || 'farm').replace(/[^a-z0-9-_]+/gi, '_')}-slot${slot + 1}.json`;
+    
+    const blob = new Blob([json], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    
+    this.statusMessage = `Exported ${fileName}`;
+  }
+  
+  private importSlot(slot: number): void {
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (!file) return;
+      
+      const reader = new FileReader();
+      reader.onload = () => {
+        try {
+          const imported = this.saveSystem.importSlot(slot, reader.result as string);
+          this.statusMessage = imported ? `Imported ${file.name} into slot ${slot + 1}` : `Could not store ${file.name}`;
+        } catch (error) {
+          console.error(`Failed to import ${file.name}:`, error);
+          this.statusMessage = this.describeError(error);
+        }
+        this.refresh();
+      };
+      reader.onerror = () => {
+        this.statusMessage = `Could not read ${file.name}`;
+        this.refresh();
+      };
+      reader.readAsText(file);
+    });
+    
+    fileInput.click();
+  }
+  
+  private describeError(error: unknown): string {
+    if (error instanceof SaveVersionError) {
+      return 'This save is from a newer version of the game. Update the game to load it.';
+    }
+    if (error instanceof SaveMigrationError) {
+      return error.message;
+    }
+    return 'Something went wrong reading this save';
+  }
+  
+  private formatPlayTime(seconds: number): string {
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.floor((seconds % 3600) / 60);
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+  
+  private escape(text: string): string {
+    return text
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;')
+      .replace(/"/g, '&quot;');
+  }
+}
\ No newline at end of file
@@ -0,0 +1,161 @@
+import { InventorySaveData } from './InventorySystem';
+import { PlayerSaveData } from './Player';
+import { GameMapSaveData } from './GameMap';
+import { GameClockSaveData } from './GameClock';
+import { migrateSave, SaveMigrationError } from './SaveMigrations';
+
+export { SAVE_VERSION, SaveVersionError, SaveMigrationError } from './SaveMigrations';
+
+export const SAVE_SLOT_COUNT = 3;
+
+const SAVE_FILE_FORMAT = 'project-miracle-save';
+
+// Thumbnails end up in an <img>, so only inline PNG or JPEG data is accepted
+const THUMBNAIL_PATTERN = /^data:image\/(png|jpeg);base64,[A-Za-z0-9+/]*={0,2}$/;
+
+export interface NPCSaveData {
+  id: string;
+  x: number;
+  y: number;
+}
+
+export interface SaveData {
+  version: number;
+  savedAt: number; // Wall-clock time the save was written
+  farmName: string;
+  playTime: number; // Real seconds played on this farm
+  clock: GameClockSaveData;
+  maps: GameMapSaveData[];
+  currentMap: string; // Id of the map the player is on; their position is in its coordinates
+  inventory: InventorySaveData;
+  player: PlayerSaveData;
+  npcs: NPCSaveData[];
+}
+
+// Summary shown in the slot list without loading the whole save
+export interface SaveSlotMeta {
+  farmName: string;
+  date: string;
+  money: number;
+  playTime: number;
+  savedAt: number;
+  thumbnail: string; // Data URL of a small canvas capture
+}
+
+// What is stored in a slot and written to exported files
+export interface SaveFile {
+  format: string;
+  meta: SaveSlotMeta;
+  data: SaveData;
+}
+
+export class SaveSystem {
+  private storagePrefix: string;
+  
+  constructor(storagePrefix: string = 'project-miracle-save') {
+    this.storagePrefix = storagePrefix;
+  }
+  
+  public save(slot: number, meta: SaveSlotMeta, data: SaveData): boolean {
+    const file: SaveFile = { format: SAVE_FILE_FORMAT, meta, data };
+    
+    try {
+      localStorage.setItem(this.getDataKey(slot), JSON.stringify(file));
+      localStorage.setItem(this.getMetaKey(slot), JSON.stringify(meta));
+      return true;
+    } catch (error) {
+      console.error(`Failed to write save slot ${slot}:`, error);
+      return false;
+    }
+  }
+  
+  // Returns the slot's data upgraded to the current schema.
+  // Throws SaveVersionError for saves from a newer build and SaveMigrationError for unreadable ones.
+  public load(slot: number): SaveData | null {
+    const file = this.readFile(slot);
+    return file ? migrateSave(file.data) as SaveData : null;
+  }
+  
+  public getMeta(slot: number): SaveSlotMeta | null {
+    const raw = localStorage.getItem(this.getMetaKey(slot));
+    if (!raw) return null;
+    
+    try {
+      const meta = JSON.parse(raw) as SaveSlotMeta;
+      return this.isSlotMeta(meta) ? meta : null;
+    } catch (error) {
+      console.error(`Failed to read save slot ${slot} metadata:`, error);
+      return null;
+    }
+  }
+  
+  public hasSave(slot: number): boolean {
+    return localStorage.getItem(this.getDataKey(slot)) !== null;
+  }
+  
+  public delete(slot: number): void {
+    localStorage.removeItem(this.getDataKey(slot));
+    localStorage.removeItem(this.getMetaKey(slot));
+  }
+  
+  // Serialized contents of a slot as stored, suitable for writing to a file
+  public exportSlot(slot: number): string | null {
+    const file = this.readFile(slot);
+    return file ? JSON.stringify(file) : null;
+  }
+  
+  // Validates an exported file, upgrades it to the current schema and writes it into the given slot.
+  // Throws the same errors as load() so the caller can explain why an import was rejected.
+  public importSlot(slot: number, json: string): boolean {
+    let file: SaveFile;
+    try {
+      file = JSON.parse(json) as SaveFile;
+    } catch (error) {
+      throw new SaveMigrationError('Imported file is not valid JSON');
+    }
+    
+    if (!this.isSaveFile(file)) {
+      throw new SaveMigrationError('Imported file is not a save file');
+    }
+    
+    const data = migrateSave(file.data) as SaveData;
+    return this.save(slot, file.meta, data);
+  }
+  
+  private readFile(slot: number): SaveFile | null {
+    const raw = localStorage.getItem(this.getDataKey(slot));
+    if (!raw) return null;
+    
+    let file: SaveFile;
+    try {
+      file = JSON.parse(raw) as SaveFile;
+    } catch (error) {
+      throw new SaveMigrationError(`Save slot ${slot + 1} is corrupt`);
+    }
+    
+    if (!this.isSaveFile(file)) {
+      throw new SaveMigrationError(`Save slot ${slot + 1} is corrupt`);
+    }
+    return file;
+  }
+  
+  private isSaveFile(file: SaveFile): boolean {
+    return !!file && file.format === SAVE_FILE_FORMAT && this.isSlotMeta(file.meta) && !!file.data &&
+      typeof file.data.version === 'number';
+  }
+  
+  // Metadata is rendered straight into the slot list, so every field must have the type it claims
+  private isSlotMeta(meta: SaveSlotMeta): boolean {
+    return !!meta && typeof meta.farmName === 'string' && typeof meta.date === 'string' &&
+      Number.isFinite(meta.money) && Number.isFinite(meta.playTime) && Number.isFinite(meta.savedAt) &&
+      typeof meta.thumbnail === 'string' && (meta.thumbnail === '' || THUMBNAIL_PATTERN.test(meta.thumbnail));
+  }
+  
+  private getDataKey(slot: number): string {
+    return `${this.storagePrefix}/${slot}`;
+  }
+  
+  private getMetaKey(slot: number): string {
+    return `${this.storagePrefix}/${slot}/meta`;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,110 @@
+import { Random } from '../utils/random';
+
+// Heritable traits carried by a seed and by the crop grown from it. Seeds saved from a
+// harvest inherit their parent's traits with a little drift; crossing two different
+// crops is the way to push them further.
+export interface SeedTraits {
+  growth: number; // Growth speed multiplier
+  yield: number; // Extra harvest items per crop
+  drought: number; // Extra time before wilting and dying, as a share of the crop's own (0-1)
+  variant: number; // Index into VARIANT_NAMES: the color of the produce
+  generation: number; // Crossings in the seed's ancestry
+  crossedWith?: string; // Crop id of the other parent, on seeds from a crossing
+}
+
+export const DEFAULT_TRAITS: SeedTraits = { growth: 1, yield: 0, drought: 0, variant: 0, generation: 0 };
+
+export const VARIANT_NAMES = ['Common', 'Crimson', 'Azure', 'Golden', 'Jade'];
+
+// Tint applied to the plant sprite for each color variant
+export const VARIANT_TINTS = [
+  { r: 1, g: 1, b: 1 },
+  { r: 1, g: 0.7, b: 0.7 },
+  { r: 0.75, g: 0.85, b: 1 },
+  { r: 1, g: 0.95, b: 0.6 },
+  { r: 0.75, g: 1, b: 0.8 },
+];
+
+const MAX_GROWTH = 2;
+const MIN_GROWTH = 0.75;
+const MAX_YIELD = 3;
+const TRAIT_STEP = 0.05; // Growth and drought change in steps this size
+
+function clampTraits(traits: SeedTraits): SeedTraits {
+  return {
+    ...traits,
+    growth: Math.round(Math.max(MIN_GROWTH, Math.min(MAX_GROWTH, traits.growth)) * 100) / 100,
+    yield: Math.max(0, Math.min(MAX_YIELD, traits.yield)),
+    drought: Math.round(Math.max(0, Math.min(1, traits.drought)) * 100) / 100,
+  };
+}
+
+// Seeds saved from a crop usually breed true, so they stack with the parent line; now
+// and then one trait mutates a step either way. The crossing marker isn't passed on.
+export function inheritTraits(parent: SeedTraits, random: Random): SeedTraits {
+  const child: SeedTraits = {
+    growth: parent.growth,
+    yield: parent.yield,
+    drought: parent.drought,
+    variant: parent.variant,
+    generation: parent.generation,
+  };
+  
+  if (random.chance(0.1)) {
+    const step = random.chance(0.5) ? 1 : -1;
+    switch (random.nextInt(4)) {
+      case 0: child.growth += step * TRAIT_STEP; break;
+      case 1: child.yield += step; break;
+      case 2: child.drought += step * TRAIT_STEP; break;
+      case 3: child.variant = random.nextInt(VARIANT_NAMES.length); break;
+    }
+  }
+  return clampTraits(child);
+}
+
+// Crossing two different crops: each trait starts from the stronger parent and tends to
+// improve, so repeated crossings are the long road to a perfect seed
+export function crossTraits(a: SeedTraits, b: SeedTraits, otherParent: string, random: Random): SeedTraits {
+  const nudge = () => (random.nextInt(4) - 1) * TRAIT_STEP; // One step down, none, or one or two up
+  return clampTraits({
+    growth: Math.max(a.growth, b.growth) + nudge(),
+    yield: Math.max(a.yield, b.yield) + (random.chance(0.2) ? 1 : 0),
+    drought: Math.max(a.drought, b.drought) + nudge(),
+    variant: random.chance(0.3) ? random.nextInt(VARIANT_NAMES.length) : (random.chance(0.5) ? a.variant : b.variant),
+    generation: Math.max(a.generation, b.generation) + 1,
+    crossedWith: otherParent,
+  });
+}
+
+// Absent traits are the defaults, so plain seeds compare equal to default ones
+export function traitsEqual(a?: SeedTraits, b?: SeedTraits): boolean {
+  const x = a ?? DEFAULT_TRAITS;
+  const y = b ?? DEFAULT_TRAITS;
+  return x.growth === y.growth && x.yield === y.yield && x.drought === y.drought &&
+    x.variant === y.variant && x.generation === y.generation && x.crossedWith === y.crossedWith;
+}
+
+// Whether traits read from a save are ones the game could have made: numbers where it
+// expects numbers and, on a hybrid, the other parent's crop id
+export function isSeedTraits(value: unknown): value is SeedTraits {
+  if (typeof value !== 'object' || value === null) return false;
+  
+  const traits = value as Record<string, unknown>;
+  return Number.isFinite(traits.growth) && Number.isFinite(traits.yield) && Number.isFinite(traits.drought) &&
+    Number.isInteger(traits.variant) && Number.isInteger(traits.generation) &&
+    (traits.crossedWith === undefined || typeof traits.crossedWith === 'string');
+}
+
+// Tooltip lines, e.g. "Growth: +25%"
+export function describeTraits(traits: SeedTraits): string[] {
+  const lines = [
+    `Growth: ${traits.growth >= 1 ? '+' : ''}${Math.round((traits.growth - 1) * 100)}%`,
+    `Yield: +${traits.yield}`,
+    `Drought tolerance: ${Math.round(traits.drought * 100)}%`,
+    `Color: ${VARIANT_NAMES[traits.variant] ?? VARIANT_NAMES[0]}`,
+  ];
+  if (traits.generation > 0) {
+    lines.push(`Generation ${traits.generation}`);
+  }
+  return lines;
+}
\ No newline at end of file
@@ -1,11 +1,25 @@
+import { CropQuality, getQualityPrice } from './CropQuality';
+import { itemRegistry, ItemCategory } from './ItemRegistry';
+
 export interface ShopItem {
   id: string;
   name: string;
   buyPrice: number;
   sellPrice: number;
   quantity?: number;
+  bundleSize?: number; // Items received per purchase
+}
+
+// One row of the shop menu; produce is listed once per quality tier being sold
+export interface ShopEntry {
+  action: 'buy' | 'sell';
+  item: ShopItem;
+  quality: CropQuality;
 }
 
+// Listed in this order
+const SHOP_CATEGORIES: ItemCategory[] = ['seed', 'fertilizer', 'repellent', 'placeable', 'crop'];
+
 export class Shop {
   private items: ShopItem[] = [];
   private isOpen: boolean = false;
@@ -14,23 +28,26 @@ export class Shop {
     this.initializeShopItems();
   }
   
+  // Seed packs, fertilizer, pest repellent and sprinklers to buy, and produce to sell:
+  // every priced item in the categories the shop deals in
   private initializeShopItems(): void {
-    this.items = [
-      {
-        id: 'seeds',
-        name: 'Carrot Seeds',
-        buyPrice: 10,
-        sellPrice: 5,
-        quantity: -1 // Infinite
-      },
-      {
-        id: 'carrot',
-        name: 'Carrot',
-        buyPrice: 30,
-        sellPrice: 15,
-        quantity: 0 // We're selling, not buying
+    this.items = [];
+    
+    for (const category of SHOP_CATEGORIES) {
+      for (const definition of itemRegistry.getAll()) {
+        if (definition.category !== category) continue;
+        if (definition.buyPrice === undefined && definition.sellPrice === undefined) continue;
+        
+        this.items.push({
+          id: definition.id,
+          name: definition.name,
+          buyPrice: definition.buyPrice ?? 0,
+          sellPrice: definition.sellPrice ?? 0,
+          quantity: definition.buyPrice !== undefined ? -1 : 0, // Infinite, or only bought from the player
+          bundleSize: definition.bundleSize
+        });
       }
-    ];
+    }
   }
   
   public open(): void {
@@ -49,27 +66,37 @@ export class Shop {
     return this.items;
   }
   
+  public getItem(itemId: string): ShopItem | undefined {
+    return this.items.find(i => i.id === itemId);
+  }
+  
+  // Items the shop stocks, as opposed to ones it only buys from the player
+  public sellsItem(itemId: string): boolean {
+    const item = this.getItem(itemId);
+    return !!item && item.quantity !== 0;
+  }
+  
   public canBuyItem(itemId: string, playerMoney: number): boolean {
-    const item = this.items.find(i => i.id === itemId);
+    const item = this.getItem(itemId);
     if (!item) return false;
     
     // Can't buy items that the shop doesn't sell
-    if (itemId === 'carrot') return false;
+    if (!this.sellsItem(itemId)) return false;
     
     return playerMoney >= item.buyPrice;
   }
   
   public buyItem(itemId: string): number {
-    const item = this.items.find(i => i.id === itemId);
-    if (!item || itemId === 'carrot') return 0;
+    const item = this.getItem(itemId);
+    if (!item || !this.sellsItem(itemId)) return 0;
     
     return item.buyPrice;
   }
   
-  public sellItem(itemId: string, quantity: number = 1): number {
-    const item = this.items.find(i => i.id === itemId);
+  public sellItem(itemId: string, quantity: number = 1, quality: CropQuality = CropQuality.Normal): number {
+    const item = this.getItem(itemId);
     if (!item) return 0;
     
-    return item.sellPrice * quantity;
+    return getQualityPrice(item.sellPrice, quality) * quantity;
   }
 }
\ No newline at end of file
@@ -0,0 +1,60 @@
+import sprinklerData from './data/sprinklers.json';
+
+// 'cross' covers the four straight lines out from the sprinkler, 'square' everything around it
+export type SprinklerPattern = 'cross' | 'square';
+
+// Placeable sprinkler tiers. Each sprays the tiles in its pattern every morning and
+// again every interval, and soil it sprays stays damp until the next spray.
+export interface SprinklerDefinition {
+  id: string; // Also the inventory item id
+  name: string;
+  icon: string;
+  color: string; // Body color of the placed sprinkler
+  pattern: SprinklerPattern;
+  range: number; // Tiles covered out from the sprinkler in each direction
+  interval: number; // Seconds between sprays
+  price: number;
+}
+
+export class SprinklerRegistry {
+  private sprinklers: Map<string, SprinklerDefinition> = new Map();
+  
+  constructor(definitions: SprinklerDefinition[]) {
+    definitions.forEach(definition => this.register(definition));
+  }
+  
+  public register(definition: SprinklerDefinition): void {
+    if (this.sprinklers.has(definition.id)) {
+      throw new Error(`Sprinkler "${definition.id}" is already registered`);
+    }
+    if (definition.range < 1 || definition.interval <= 0) {
+      throw new Error(`Sprinkler "${definition.id}" needs a range of at least 1 and a positive interval`);
+    }
+    
+    this.sprinklers.set(definition.id, { ...definition });
+  }
+  
+  public get(sprinklerId: string): SprinklerDefinition | undefined {
+    return this.sprinklers.get(sprinklerId);
+  }
+  
+  public getAll(): SprinklerDefinition[] {
+    return Array.from(this.sprinklers.values());
+  }
+  
+  // Tile offsets from the sprinkler that it waters, not including its own tile
+  public getCoverage(sprinkler: SprinklerDefinition): { dx: number, dy: number }[] {
+    const offsets: { dx: number, dy: number }[] = [];
+    for (let dy = -sprinkler.range; dy <= sprinkler.range; dy++) {
+      for (let dx = -sprinkler.range; dx <= sprinkler.range; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        if (sprinkler.pattern === 'cross' && dx !== 0 && dy !== 0) continue;
+        offsets.push({ dx, dy });
+      }
+    }
+    return offsets;
+  }
+}
+
+// Sprinklers shipped with the game; add new ones to data/sprinklers.json
+export const sprinklerRegistry = new SprinklerRegistry(sprinklerData as SprinklerDefinition[]);
\ No newline at end of file
@@ -1,3 +1,17 @@
+import { GameClock } from './GameClock';
+import { Calendar } from './Calendar';
+import { Random } from '../utils/random';
+import { GenerationContext, GenerationPass } from './worldgen/GenerationPass';
+import { createDefaultTerrainPasses } from './worldgen/TerrainPasses';
+import { Chunk, ChunkSaveData } from './Chunk';
+import { cropRegistry, CropDefinition } from './CropRegistry';
+import { fertilizerRegistry } from './FertilizerRegistry';
+import { sprinklerRegistry } from './SprinklerRegistry';
+import { repellentRegistry } from './RepellentRegistry';
+import { SeedTraits, DEFAULT_TRAITS, inheritTraits, crossTraits } from './SeedGenetics';
+import { CropQuality, getCareScore, rollQuality } from './CropQuality';
+import { InventorySlot } from './InventorySystem';
+
 export enum TileType {
   Grass = 0,
   Dirt = 1,
@@ -7,175 +21,284 @@ export enum TileType {
   PlantedDirt = 5,
   Tree = 6,
   TreeStump = 7,
+  DeadPlant = 8, // A crop that died of thirst or out of season; cleared with the scythe
+  Sprinkler = 9, // Placed sprinkler; knocked loose with the axe
+  GiantCrop = 10, // Part of a 3x3 giant crop; felled with the axe
+  Weeds = 11, // Overgrown soil; cleared with the scythe
+  Greenhouse = 12, // Part of a greenhouse building, entered through its door
+  Wall = 13, // Indoor wall
+  Door = 14, // Walking onto it takes the player to another map
+  Chest = 15, // Placed storage; opened with the interact key, picked up with the axe once empty
 }
 
 export interface Tile {
   type: TileType;
   solid: boolean;
   tilled?: boolean;
-  tilledTime?: number;
+  tilledTime?: number; // Game clock time when tilled
   planted?: boolean;
   growth?: number;
   watered?: boolean;
-  lastWatered?: number;
+  lastWatered?: number; // Game clock time when last watered
+  wateredToday?: boolean; // Watered at some point during the current in-game day
+  dryingSince?: number; // Game clock time the crop last ran out of water (or was planted)
+  wilted?: boolean; // Dry for too long; stops growing until watered
+  harvestCount?: number; // Times a regrowing crop has been picked
+  wetGrowth?: number; // Growth gained while watered, for rolling harvest quality
+  plantedWet?: boolean; // Seed went into watered soil
+  everWilted?: boolean;
+  fertility?: number; // 0-1 soil nutrients, worn down by harvests; absent means fresh soil
+  moistureRetention?: number; // 0-1 how well the soil holds water, worn down by harvests; absent means fresh soil
+  fertilizer?: string; // Fertilizer registry id worked into the soil for the current crop
+  wetDuration?: number; // Milliseconds the last watering lasts at least (sprinklers keep soil damp between sprays)
+  sprinkler?: string; // Sprinkler registry id, on Sprinkler tiles
+  chest?: InventorySlot[][]; // Contents of a Chest tile
+  lastSprinkled?: number; // Game clock time of the sprinkler's last spray
+  anchorX?: number; // Top-left tile of the multi-tile object covering this tile
+  anchorY?: number;
+  objectWidth?: number; // Size in tiles, on a multi-tile object's anchor tile
+  objectHeight?: number;
+  giantHealth?: number; // Axe hits left on a giant crop's anchor tile
+  door?: string; // Map id a door leads to
+  doorX?: number; // Tile the player arrives on in that map
+  doorY?: number;
+  pests?: number; // Nights the crop has been infested
+  repelledUntil?: number; // Last day (TileMap day count) the soil is protected from pests
   cropType?: string;
+  traits?: SeedTraits; // Genetics of the crop, from the seed it was planted from; absent means default
   treeHealth?: number;
   treeVariant?: number; // 1-4 for different tree textures
-  stumpTime?: number; // Time when tree was chopped
+  stumpTime?: number; // Game clock time when tree was chopped
   originalTreeVariant?: number; // Remember which tree variant to regrow
 }
 
+export interface SeedDrop {
+  cropType: string;
+  traits: SeedTraits;
+  quantity: number;
+}
+
+export interface HarvestResult {
+  cropType: string;
+  quality: CropQuality;
+  yield: number; // Harvest items, including any bonus from the crop's traits
+  seeds: SeedDrop[];
+}
+
+export interface DoorTarget {
+  mapId: string;
+  tileX: number;
+  tileY: number;
+}
+
+export interface GiantCropChop {
+  cropType: string;
+  felled: boolean; // False while it still has health left
+  centerX: number; // World position of the middle of the giant crop
+  centerY: number;
+}
+
+// The four tiles sharing an edge with a tile
+const NEIGHBOUR_OFFSETS = [[1, 0], [-1, 0], [0, 1], [0, -1]];
+
+// A box in world pixels. Its edges count as inside, the way player collision checks its corners.
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface TileMapSaveData {
+  seed: number;
+  randomState: number; // Gameplay RNG state, so saved worlds keep rolling the same numbers
+  tileSize: number;
+  dayCount: number;
+  chunks: ChunkSaveData[]; // Only chunks that differ from what the seed generates
+}
+
+// An unbounded world made of chunks that are generated from the seed as they are
+// needed. Chunks near the player stay loaded; distant ones are unloaded, and the
+// ones the player changed are kept as save data and caught up when they come back.
 export class TileMap {
-  private tiles: Tile[][];
-  private width: number;
-  private height: number;
+  public static readonly DAILY_GROWTH = 0.25; // Growth gained at day rollover by crops watered that day
+  public static readonly WATER_DURATION = 5000; // Milliseconds a watering lasts
+  public static readonly TILLED_DURATION = 30000; // Milliseconds before unplanted tilled dirt reverts
+  public static readonly STUMP_REGROW_TIME = 20000; // Milliseconds before a stump regrows into a tree
+  public static readonly LOAD_RADIUS = 2; // Chunks kept loaded in each direction around the player
+  public static readonly UNLOAD_RADIUS = 4; // Chunks further than this are unloaded
+  public static readonly FERTILITY_LOSS_PER_HARVEST = 0.15;
+  public static readonly RETENTION_LOSS_PER_HARVEST = 0.1;
+  public static readonly GIANT_CROP_SIZE = 3; // Giant crops cover a square block this many tiles wide
+  public static readonly HYBRID_CHANCE = 0.25; // Chance per harvest of a hybrid seed when a different crop is adjacent
+  public static readonly WEED_SPAWN_CHANCE = 0.3; // Nightly chance weeds take over a dead crop or unplanted soil
+  public static readonly WEED_SPREAD_CHANCE = 0.25; // Nightly chance weeds creep into each neglected neighbour
+  public static readonly WEED_CHOKE = 0.15; // Share of growth a crop loses per adjacent weed tile
+  public static readonly PEST_CHANCE = 0.03; // Nightly chance pests find an unprotected crop
+  public static readonly PEST_WEED_CHANCE = 0.1; // Added for each adjacent weed tile
+  public static readonly PEST_SPREAD_CHANCE = 0.2; // Added for each adjacent infested crop
+  public static readonly PEST_DAMAGE = 0.2; // Growth eaten by pests each night
+  public static readonly PEST_DEATH_NIGHTS = 3; // Nights of infestation a crop survives
+  public static readonly GREENHOUSE_WIDTH = 5; // Greenhouse building footprint in tiles; its door is in the middle of the bottom row
+  public static readonly GREENHOUSE_HEIGHT = 4;
+  public static readonly CHEST_ROWS = 3; // Slots in a chest
+  public static readonly CHEST_COLS = 6;
+  
+  private chunks: Map<string, Chunk> = new Map();
+  private unloadedChunks: Map<string, ChunkSaveData> = new Map(); // Modified chunks that aren't loaded
   private tileSize: number;
+  private clock: GameClock;
+  private calendar: Calendar;
+  private seed: number;
+  private random: Random; // Gameplay randomness (tree variants, regrowth)
+  private passes: GenerationPass[];
+  private indoor: boolean; // Indoors every crop is in season, and worked ground settles back to dirt
+  private dayCount: number = 0; // Day rollovers seen, so reloaded chunks know how many nights they missed
+  private playerBounds: Bounds | null = null; // Where the player stands, while they're on this map
   
-  constructor(width: number, height: number, tileSize: number = 32) {
-    this.width = width;
-    this.height = height;
+  constructor(
+    clock: GameClock,
+    calendar: Calendar,
+    seed: number,
+    tileSize: number = 32,
+    passes: GenerationPass[] = createDefaultTerrainPasses(),
+    indoor: boolean = false
+  ) {
+    this.clock = clock;
+    this.calendar = calendar;
+    this.seed = seed >>> 0;
+    // Separate stream from generation so player actions never change what the seed generates
+    this.random = new Random(this.seed ^ 0x9E3779B9);
     this.tileSize = tileSize;
-    this.tiles = [];
-    
-    this.generateMap();
+    this.passes = passes;
+    this.indoor = indoor;
   }
   
-  private generateMap(): void {
+  private generateChunk(chunkX: number, chunkY: number): Chunk {
     // Initialize with grass
-    for (let y = 0; y < this.height; y++) {
-      this.tiles[y] = [];
-      for (let x = 0; x < this.width; x++) {
-        this.tiles[y][x] = {
+    const tiles: Tile[][] = [];
+    for (let y = 0; y < Chunk.SIZE; y++) {
+      tiles[y] = [];
+      for (let x = 0; x < Chunk.SIZE; x++) {
+        tiles[y][x] = {
           type: TileType.Grass,
           solid: false,
         };
       }
     }
     
-    // Add some random features
-    this.generateRiver();
-    this.generateStones();
-    this.generateDirtPatches();
-    this.generateTrees();
+    // Each pass reads what earlier passes left in the context and adds its own features.
+    // Passes sample noise in world coordinates, so neighbouring chunks line up.
+    const context = new GenerationContext(this.seed, chunkX * Chunk.SIZE, chunkY * Chunk.SIZE, tiles);
+    for (const pass of this.passes) {
+      pass.apply(context);
+    }
+    
+    return new Chunk(chunkX, chunkY, tiles);
   }
   
-  private generateRiver(): void {
-    const riverY = Math.floor(this.height / 2);
-    const riverWidth = 3;
+  // Returns the chunk, loading it from saved changes or generating it if needed
+  private getChunk(chunkX: number, chunkY: number): Chunk {
+    const key = Chunk.key(chunkX, chunkY);
+    let chunk = this.chunks.get(key);
+    if (chunk) return chunk;
     
-    for (let x = 0; x < this.width; x++) {
-      const offset = Math.sin(x * 0.3) * 2;
-      for (let dy = -riverWidth; dy <= riverWidth; dy++) {
-        const y = Math.floor(riverY + offset + dy);
-        if (y >= 0 && y < this.height) {
-          this.tiles[y][x] = {
-            type: TileType.Water,
-            solid: true,
-          };
-        }
-      }
+    const saved = this.unloadedChunks.get(key);
+    if (saved) {
+      chunk = Chunk.fromSaveData(saved);
+      this.unloadedChunks.delete(key);
+      // Registered before catching up, since sprinklers spraying across a border can look it up
+      this.chunks.set(key, chunk);
+      this.catchUpChunk(chunk, saved);
+    } else {
+      chunk = this.generateChunk(chunkX, chunkY);
+      this.chunks.set(key, chunk);
     }
+    
+    return chunk;
   }
   
-  private generateStones(): void {
-    const stoneCount = Math.floor(this.width * this.height * 0.02);
-    for (let i = 0; i < stoneCount; i++) {
-      const x = Math.floor(Math.random() * this.width);
-      const y = Math.floor(Math.random() * this.height);
-      if (this.tiles[y][x].type === TileType.Grass) {
-        this.tiles[y][x] = {
-          type: TileType.Stone,
-          solid: true,
-        };
-      }
+  // Runs everything that happened while the chunk was unloaded, one step per missed day.
+  // Each step ends at nightfall, so every night gets its own growth, season check, weeds,
+  // pests and giant crop roll; within a day growth and timers are step-size independent,
+  // so this matches having kept the chunk loaded.
+  private catchUpChunk(chunk: Chunk, saved: ChunkSaveData): void {
+    const now = this.clock.now();
+    let time = Math.min(saved.lastSimulated, now);
+    
+    for (let day = saved.lastDay + 1; day <= this.dayCount; day++) {
+      const nightfall = Math.min(now, this.calendar.getNextDayStart(time));
+      this.simulateChunk(chunk, (nightfall - time) / 1000, 1, nightfall, day);
+      time = nightfall;
+    }
+    if (now > time) {
+      this.simulateChunk(chunk, (now - time) / 1000, 0, now, this.dayCount);
     }
   }
   
-  private generateDirtPatches(): void {
-    const patchCount = 5;
-    for (let i = 0; i < patchCount; i++) {
-      const centerX = Math.floor(Math.random() * this.width);
-      const centerY = Math.floor(Math.random() * this.height);
-      const radius = 2 + Math.floor(Math.random() * 3);
-      
-      for (let dy = -radius; dy <= radius; dy++) {
-        for (let dx = -radius; dx <= radius; dx++) {
-          if (dx * dx + dy * dy <= radius * radius) {
-            const x = centerX + dx;
-            const y = centerY + dy;
-            if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
-              if (this.tiles[y][x].type === TileType.Grass) {
-                this.tiles[y][x] = {
-                  type: TileType.Dirt,
-                  solid: false,
-                };
-              }
-            }
-          }
-        }
-      }
+  private unloadChunk(chunk: Chunk): void {
+    this.chunks.delete(chunk.getKey());
+    if (chunk.modified) {
+      this.unloadedChunks.set(chunk.getKey(), chunk.getSaveData(this.clock.now(), this.dayCount));
     }
   }
   
-  private generateTrees(): void {
-    const treeCount = Math.floor(this.width * this.height * 0.03); // 3% of tiles
-    for (let i = 0; i < treeCount; i++) {
-      const x = Math.floor(Math.random() * this.width);
-      const y = Math.floor(Math.random() * this.height);
-      
-      // Only place trees on grass tiles and ensure some spacing
-      if (this.tiles[y][x].type === TileType.Grass) {
-        // Check for nearby trees to avoid clustering
-        let hasNearbyTree = false;
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            const checkX = x + dx;
-            const checkY = y + dy;
-            if (checkX >= 0 && checkX < this.width && checkY >= 0 && checkY < this.height) {
-              if (this.tiles[checkY][checkX].type === TileType.Tree) {
-                hasNearbyTree = true;
-                break;
-              }
-            }
-          }
-          if (hasNearbyTree) break;
-        }
-        
-        if (!hasNearbyTree) {
-          this.tiles[y][x] = {
-            type: TileType.Tree,
-            solid: true,
-            treeHealth: 3, // Takes 3 hits to chop down
-            treeVariant: Math.floor(Math.random() * 4) + 1, // Random variant 1-4
-          };
-        }
+  // Puts every chunk away as of now, so each catches up on whatever happens next when it is
+  // loaded again
+  public unloadAll(): void {
+    for (const chunk of Array.from(this.chunks.values())) {
+      this.unloadChunk(chunk);
+    }
+  }
+  
+  // Loads the chunks around a world position and unloads distant ones
+  public updateStreaming(worldX: number, worldY: number): void {
+    const centerX = Chunk.toChunkCoord(Math.floor(worldX / this.tileSize));
+    const centerY = Chunk.toChunkCoord(Math.floor(worldY / this.tileSize));
+    
+    for (let chunkY = centerY - TileMap.LOAD_RADIUS; chunkY <= centerY + TileMap.LOAD_RADIUS; chunkY++) {
+      for (let chunkX = centerX - TileMap.LOAD_RADIUS; chunkX <= centerX + TileMap.LOAD_RADIUS; chunkX++) {
+        this.getChunk(chunkX, chunkY);
       }
     }
+    
+    // Unload past a wider radius than we load so walking along a chunk border doesn't thrash
+    for (const chunk of Array.from(this.chunks.values())) {
+      const distance = Math.max(Math.abs(chunk.chunkX - centerX), Math.abs(chunk.chunkY - centerY));
+      if (distance > TileMap.UNLOAD_RADIUS) {
+        this.unloadChunk(chunk);
+      }
+    }
+  }
+  
+  public getLoadedChunkCount(): number {
+    return this.chunks.size;
   }
   
   public getTile(x: number, y: number): Tile | null {
     const tileX = Math.floor(x / this.tileSize);
     const tileY = Math.floor(y / this.tileSize);
-    
-    if (tileX < 0 || tileX >= this.width || tileY < 0 || tileY >= this.height) {
-      return null;
-    }
-    
-    return this.tiles[tileY][tileX];
+    return this.getTileAt(tileX, tileY);
   }
   
   public getTileAt(tileX: number, tileY: number): Tile | null {
-    if (tileX < 0 || tileX >= this.width || tileY < 0 || tileY >= this.height) {
+    if (!Number.isFinite(tileX) || !Number.isFinite(tileY)) {
       return null;
     }
     
-    return this.tiles[tileY][tileX];
+    const chunk = this.getChunk(Chunk.toChunkCoord(tileX), Chunk.toChunkCoord(tileY));
+    return chunk.getTile(tileX - chunk.getOriginX(), tileY - chunk.getOriginY());
   }
   
   public setTile(tileX: number, tileY: number, tile: Tile): void {
-    if (tileX >= 0 && tileX < this.width && tileY >= 0 && tileY < this.height) {
-      this.tiles[tileY][tileX] = tile;
-    }
+    const chunk = this.getChunk(Chunk.toChunkCoord(tileX), Chunk.toChunkCoord(tileY));
+    chunk.setTile(tileX - chunk.getOriginX(), tileY - chunk.getOriginY(), tile);
+    chunk.modified = true;
+  }
+  
+  // Call after changing a tile's fields in place so its chunk is simulated and kept
+  private markModified(tileX: number, tileY: number): void {
+    this.getChunk(Chunk.toChunkCoord(tileX), Chunk.toChunkCoord(tileY)).modified = true;
   }
   
   public tillTile(x: number, y: number): boolean {
@@ -185,19 +308,21 @@ export class TileMap {
     
     
     if (tile && (tile.type === TileType.Grass || tile.type === TileType.Dirt)) {
-      this.tiles[tileY][tileX] = {
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
         type: TileType.TilledDirt,
         solid: false,
         tilled: true,
-        tilledTime: Date.now(),
-      };
+        tilledTime: this.clock.now(),
+      });
       return true;
     }
     
     return false;
   }
   
-  public plantSeed(x: number, y: number, cropType: string = 'carrot'): boolean {
+  // cropType is a crop registry id, or 'tree' for tree seeds. Crop seeds pass on their traits.
+  public plantSeed(x: number, y: number, cropType: string, traits?: SeedTraits): boolean {
     const tileX = Math.floor(x / this.tileSize);
     const tileY = Math.floor(y / this.tileSize);
     const tile = this.getTileAt(tileX, tileY);
@@ -205,26 +330,37 @@ export class TileMap {
     if (cropType === 'tree') {
       // Plant tree seeds on grass
       if (tile && tile.type === TileType.Grass) {
-        this.tiles[tileY][tileX] = {
+        this.setTile(tileX, tileY, {
           type: TileType.TreeStump,
           solid: false,
-          stumpTime: Date.now() - 15000, // Start at 15 seconds so it grows in 5 seconds
-          originalTreeVariant: Math.floor(Math.random() * 4) + 1
-        };
+          stumpTime: this.clock.now() - 15000, // Start at 15 seconds so it grows in 5 seconds
+          originalTreeVariant: this.random.nextInt(4) + 1
+        });
         return true;
       }
     } else {
-      // Plant regular seeds on tilled dirt
+      // Plant regular seeds on tilled dirt, only while the crop is in season
+      const crop = cropRegistry.get(cropType);
+      if (!crop || !this.canGrow(crop)) {
+        return false;
+      }
+      
       if (tile && tile.type === TileType.TilledDirt && !tile.planted) {
-        this.tiles[tileY][tileX] = {
+        this.setTile(tileX, tileY, {
+          ...this.getSoil(tile),
+          fertilizer: tile.fertilizer,
           type: TileType.PlantedDirt,
           solid: false,
           tilled: true,
           planted: true,
           growth: 0,
           watered: false,
-          cropType: cropType
-        };
+          dryingSince: this.clock.now(),
+          wetGrowth: 0,
+          plantedWet: !!tile.watered,
+          cropType: cropType,
+          traits: traits ? { ...traits } : undefined
+        });
         return true;
       }
     }
@@ -232,41 +368,571 @@ export class TileMap {
     return false;
   }
   
+  // Outdoors a crop only grows in its seasons; indoors it grows all year
+  public canGrow(crop: CropDefinition, time: number = this.clock.now()): boolean {
+    return this.indoor || cropRegistry.isInSeason(crop, this.calendar.getSeason(time));
+  }
+  
+  // What unworked ground is: grass outdoors, bare dirt indoors
+  private getGround(): TileType {
+    return this.indoor ? TileType.Dirt : TileType.Grass;
+  }
+  
   public waterTile(x: number, y: number): boolean {
-    const tileX = Math.floor(x / this.tileSize);
-    const tileY = Math.floor(y / this.tileSize);
+    return this.waterTileAt(Math.floor(x / this.tileSize), Math.floor(y / this.tileSize), this.clock.now());
+  }
+  
+  // Shared by the watering can and sprinklers, which water at the time of their spray
+  private waterTileAt(tileX: number, tileY: number, time: number, minDuration?: number): boolean {
     const tile = this.getTileAt(tileX, tileY);
     
     if (tile && (tile.type === TileType.TilledDirt || tile.type === TileType.PlantedDirt)) {
       tile.watered = true;
-      tile.lastWatered = Date.now();
+      tile.wateredToday = true;
+      tile.lastWatered = time;
+      tile.wetDuration = minDuration;
+      // Water revives a wilted crop
+      tile.wilted = false;
+      tile.dryingSince = undefined;
+      this.markModified(tileX, tileY);
       return true;
     }
     
     return false;
   }
   
-  public harvestCrop(x: number, y: number): string | null {
+  // Works a fertilizer into tilled or planted soil. Only one fertilizer per crop.
+  public applyFertilizer(x: number, y: number, fertilizerId: string): boolean {
     const tileX = Math.floor(x / this.tileSize);
     const tileY = Math.floor(y / this.tileSize);
     const tile = this.getTileAt(tileX, tileY);
+    const fertilizer = fertilizerRegistry.get(fertilizerId);
+    
+    if (tile && fertilizer && !tile.fertilizer && (tile.type === TileType.TilledDirt || tile.type === TileType.PlantedDirt)) {
+      tile.fertilizer = fertilizer.id;
+      tile.fertility = Math.min(1, this.getFertility(tile) + fertilizer.fertilityRestore);
+      tile.moistureRetention = Math.min(1, this.getMoistureRetention(tile) + fertilizer.retentionRestore);
+      this.markModified(tileX, tileY);
+      return true;
+    }
+    
+    return false;
+  }
+  
+  public getFertility(tile: Tile): number {
+    return tile.fertility ?? 1;
+  }
+  
+  public getMoistureRetention(tile: Tile): number {
+    return tile.moistureRetention ?? 1;
+  }
+  
+  // Milliseconds a watering lasts on this tile: worn soil dries out faster, some fertilizers slow it down
+  public getWaterDuration(tile: Tile): number {
+    const fertilizer = tile.fertilizer ? fertilizerRegistry.get(tile.fertilizer) : undefined;
+    const soilDuration = TileMap.WATER_DURATION * (0.5 + 0.5 * this.getMoistureRetention(tile)) * (fertilizer?.waterMultiplier ?? 1);
+    return Math.max(tile.wetDuration ?? 0, soilDuration);
+  }
+  
+  // Multiplier on crop growth from soil nutrients, fertilizer, the crop's genetics and
+  // weeds crowding it. Infested crops don't grow at all.
+  private getGrowthMultiplier(tileX: number, tileY: number, tile: Tile): number {
+    if (tile.pests) return 0;
     
-    if (tile && tile.type === TileType.PlantedDirt && tile.growth && tile.growth >= 1) {
-      const cropType = tile.cropType || 'carrot';
-      // Reset tile to tilled dirt
-      this.tiles[tileY][tileX] = {
+    const fertilizer = tile.fertilizer ? fertilizerRegistry.get(tile.fertilizer) : undefined;
+    const choke = Math.max(0, 1 - TileMap.WEED_CHOKE * this.countNeighbours(tileX, tileY, n => n.type === TileType.Weeds));
+    return (0.5 + 0.5 * this.getFertility(tile)) * (fertilizer?.growthMultiplier ?? 1) * (tile.traits?.growth ?? 1) * choke;
+  }
+  
+  private countNeighbours(tileX: number, tileY: number, predicate: (tile: Tile) => boolean): number {
+    let count = 0;
+    for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+      const neighbour = this.getTileAt(tileX + dx, tileY + dy);
+      if (neighbour && predicate(neighbour)) {
+        count++;
+      }
+    }
+    return count;
+  }
+  
+  // Fertility, moisture retention and pest protection, carried over whenever a tile changes type
+  private getSoil(tile: Tile): Pick<Tile, 'fertility' | 'moistureRetention' | 'repelledUntil'> {
+    return { fertility: tile.fertility, moistureRetention: tile.moistureRetention, repelledUntil: tile.repelledUntil };
+  }
+  
+  public harvestCrop(x: number, y: number): HarvestResult | null {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    
+    const crop = tile?.cropType ? cropRegistry.get(tile.cropType) : undefined;
+    if (tile && tile.type === TileType.PlantedDirt && crop && tile.growth && tile.growth >= 1) {
+      const result: HarvestResult = {
+        cropType: crop.id,
+        quality: rollQuality(this.getCareScore(tile), this.random),
+        yield: crop.yield + (tile.traits?.yield ?? 0),
+        seeds: this.rollSeeds(tileX, tileY, tile, crop),
+      };
+      
+      // Every harvest takes something out of the soil
+      tile.fertility = Math.max(0, this.getFertility(tile) - TileMap.FERTILITY_LOSS_PER_HARVEST);
+      tile.moistureRetention = Math.max(0, this.getMoistureRetention(tile) - TileMap.RETENTION_LOSS_PER_HARVEST);
+      
+      // Regrowing crops drop back to an earlier stage until their last harvest
+      const harvestCount = (tile.harvestCount ?? 0) + 1;
+      if (crop.regrowth && harvestCount < crop.regrowth.harvests) {
+        // Keep the watering record proportionally so the next pick reflects ongoing care
+        tile.wetGrowth = (tile.wetGrowth ?? 0) / tile.growth * crop.regrowth.growth;
+        tile.growth = crop.regrowth.growth;
+        tile.harvestCount = harvestCount;
+        this.markModified(tileX, tileY);
+        return result;
+      }
+      
+      // Reset tile to tilled dirt; the fertilizer is used up with the crop
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
         type: TileType.TilledDirt,
         solid: false,
         tilled: true,
         watered: false
+      });
+      return result;
+    }
+    
+    return null;
+  }
+  
+  // Seeds saved from a harvest, plus now and then a hybrid when a different crop grows next door
+  private rollSeeds(tileX: number, tileY: number, tile: Tile, crop: CropDefinition): SeedDrop[] {
+    const traits = tile.traits ?? DEFAULT_TRAITS;
+    const seeds: SeedDrop[] = [];
+    if (crop.seedReturn > 0) {
+      seeds.push({ cropType: crop.id, traits: inheritTraits(traits, this.random), quantity: crop.seedReturn });
+    }
+    
+    const partners: Tile[] = [];
+    for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+      const neighbour = this.getTileAt(tileX + dx, tileY + dy);
+      if (neighbour && neighbour.type === TileType.PlantedDirt && neighbour.cropType && neighbour.cropType !== crop.id && cropRegistry.get(neighbour.cropType)) {
+        partners.push(neighbour);
+      }
+    }
+    
+    if (partners.length > 0 && this.random.chance(TileMap.HYBRID_CHANCE)) {
+      const partner = partners[this.random.nextInt(partners.length)];
+      const partnerType = partner.cropType as string;
+      // The hybrid grows as either parent and remembers the other
+      const [seedType, otherParent] = this.random.chance(0.5) ? [crop.id, partnerType] : [partnerType, crop.id];
+      seeds.push({
+        cropType: seedType,
+        traits: crossTraits(traits, partner.traits ?? DEFAULT_TRAITS, otherParent, this.random),
+        quantity: 1,
+      });
+    }
+    
+    return seeds;
+  }
+  
+  private getCareScore(tile: Tile): number {
+    const growth = tile.growth || 1;
+    const fertilizer = tile.fertilizer ? fertilizerRegistry.get(tile.fertilizer) : undefined;
+    const tending = (tile.plantedWet ? 0.5 : 0) + (tile.everWilted ? 0 : 0.5);
+    return getCareScore({
+      watering: Math.min(1, (tile.wetGrowth ?? 0) / growth),
+      soil: tending * (0.5 + 0.5 * this.getFertility(tile)),
+      fertilizer: fertilizer?.qualityBonus ?? 0,
+    });
+  }
+  
+  // Placed objects go on open ground or unplanted soil, never under the player
+  private canPlaceOn(tileX: number, tileY: number, tile: Tile): boolean {
+    return (tile.type === TileType.Grass || tile.type === TileType.Dirt || (tile.type === TileType.TilledDirt && !tile.planted)) &&
+      !this.overlapsPlayer(tileX, tileY, 1, 1);
+  }
+  
+  // Sprinklers spray as soon as they're placed
+  public placeSprinkler(x: number, y: number, sprinklerId: string): boolean {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    const sprinkler = sprinklerRegistry.get(sprinklerId);
+    
+    if (tile && sprinkler && this.canPlaceOn(tileX, tileY, tile)) {
+      const placed: Tile = {
+        ...this.getSoil(tile),
+        type: TileType.Sprinkler,
+        solid: true,
+        sprinkler: sprinkler.id,
       };
-      return cropType;
+      this.setTile(tileX, tileY, placed);
+      this.spray(tileX, tileY, placed, this.clock.now());
+      return true;
+    }
+    
+    return false;
+  }
+  
+  // Picks up a sprinkler, returning its id so the caller can drop the item
+  public removeSprinkler(x: number, y: number): string | null {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    
+    if (tile && tile.type === TileType.Sprinkler && tile.sprinkler) {
+      const sprinklerId = tile.sprinkler;
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
+        type: this.getGround(),
+        solid: false,
+      });
+      return sprinklerId;
     }
     
     return null;
   }
   
-  public chopTree(x: number, y: number): boolean | 'stump' {
+  // Chests start out empty
+  public placeChest(x: number, y: number): boolean {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    
+    if (tile && this.canPlaceOn(tileX, tileY, tile)) {
+      const chest: InventorySlot[][] = [];
+      for (let row = 0; row < TileMap.CHEST_ROWS; row++) {
+        chest.push([]);
+        for (let col = 0; col < TileMap.CHEST_COLS; col++) {
+          chest[row].push({ item: null, row, col });
+        }
+      }
+      
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
+        type: TileType.Chest,
+        solid: true,
+        chest,
+      });
+      return true;
+    }
+    
+    return false;
+  }
+  
+  // Picks up a chest, but only once it has been emptied
+  public removeChest(x: number, y: number): boolean {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    
+    if (tile && tile.type === TileType.Chest && !tile.chest?.some(row => row.some(slot => slot.item))) {
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
+        type: this.getGround(),
+        solid: false,
+      });
+      return true;
+    }
+    
+    return false;
+  }
+  
+  public getChest(tileX: number, tileY: number): InventorySlot[][] | null {
+    const tile = this.getTileAt(tileX, tileY);
+    return tile?.type === TileType.Chest ? tile.chest ?? null : null;
+  }
+  
+  // Every chest within `radius` tiles of the given tile, in either direction
+  public getChestsNear(tileX: number, tileY: number, radius: number): InventorySlot[][][] {
+    const chests: InventorySlot[][][] = [];
+    for (let y = tileY - radius; y <= tileY + radius; y++) {
+      for (let x = tileX - radius; x <= tileX + radius; x++) {
+        const chest = this.getChest(x, y);
+        if (chest) {
+          chests.push(chest);
+        }
+      }
+    }
+    return chests;
+  }
+  
+  // Waters everything in the sprinkler's pattern as of the given time
+  private spray(tileX: number, tileY: number, tile: Tile, time: number): void {
+    const sprinkler = tile.sprinkler ? sprinklerRegistry.get(tile.sprinkler) : undefined;
+    if (!sprinkler) return;
+    
+    for (const { dx, dy } of sprinklerRegistry.getCoverage(sprinkler)) {
+      this.waterTileAt(tileX + dx, tileY + dy, time, sprinkler.interval * 1000);
+    }
+    tile.lastSprinkled = time;
+  }
+  
+  // Fires the chunk's sprinklers: on their interval, or all at once for the morning soak.
+  // A long step only fires the last spray it covered; since sprayed soil stays damp until
+  // the next spray, that still counts the whole step as watered.
+  private runSprinklers(chunk: Chunk, currentTime: number, morning: boolean): void {
+    for (let y = 0; y < Chunk.SIZE; y++) {
+      for (let x = 0; x < Chunk.SIZE; x++) {
+        const tile = chunk.getTile(x, y);
+        const sprinkler = tile.sprinkler ? sprinklerRegistry.get(tile.sprinkler) : undefined;
+        if (tile.type !== TileType.Sprinkler || !sprinkler) continue;
+        
+        const tileX = chunk.getOriginX() + x;
+        const tileY = chunk.getOriginY() + y;
+        const interval = sprinkler.interval * 1000;
+        const last = tile.lastSprinkled ?? currentTime;
+        
+        if (morning) {
+          this.spray(tileX, tileY, tile, currentTime);
+        } else if (currentTime - last >= interval) {
+          this.spray(tileX, tileY, tile, last + Math.floor((currentTime - last) / interval) * interval);
+        }
+      }
+    }
+  }
+  
+  // Multi-tile objects cover a block of tiles. Every covered tile points at the block's
+  // top-left (anchor) tile, which also holds the object's own state.
+  public getObjectAnchor(tileX: number, tileY: number): { tileX: number, tileY: number, tile: Tile } | null {
+    const tile = this.getTileAt(tileX, tileY);
+    if (!tile || tile.anchorX === undefined || tile.anchorY === undefined) return null;
+    
+    const anchor = this.getTileAt(tile.anchorX, tile.anchorY);
+    return anchor ? { tileX: tile.anchorX, tileY: tile.anchorY, tile: anchor } : null;
+  }
+  
+  // Replaces a block of tiles with an object; createTile builds each covered tile from the one it replaces
+  private placeObject(tileX: number, tileY: number, width: number, height: number, createTile: (covered: Tile, isAnchor: boolean) => Tile): void {
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        const covered = this.getTileAt(tileX + dx, tileY + dy);
+        if (!covered) continue;
+        
+        const isAnchor = dx === 0 && dy === 0;
+        const tile = createTile(covered, isAnchor);
+        tile.anchorX = tileX;
+        tile.anchorY = tileY;
+        if (isAnchor) {
+          tile.objectWidth = width;
+          tile.objectHeight = height;
+        }
+        this.setTile(tileX + dx, tileY + dy, tile);
+      }
+    }
+  }
+  
+  // Clears an object off every tile it covers; createTile builds what's left behind on each
+  private removeObject(anchorX: number, anchorY: number, createTile: (covered: Tile) => Tile): void {
+    const anchor = this.getTileAt(anchorX, anchorY);
+    if (!anchor) return;
+    
+    const width = anchor.objectWidth ?? 1;
+    const height = anchor.objectHeight ?? 1;
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        const covered = this.getTileAt(anchorX + dx, anchorY + dy);
+        if (covered && covered.anchorX === anchorX && covered.anchorY === anchorY) {
+          this.setTile(anchorX + dx, anchorY + dy, createTile(covered));
+        }
+      }
+    }
+  }
+  
+  // Solid objects never appear on top of the player, who would be stuck inside them
+  public setPlayerBounds(bounds: Bounds | null): void {
+    this.playerBounds = bounds;
+  }
+  
+  private overlapsPlayer(tileX: number, tileY: number, width: number, height: number): boolean {
+    const bounds = this.playerBounds;
+    if (!bounds) return false;
+    
+    return Math.floor(bounds.left / this.tileSize) < tileX + width && Math.floor(bounds.right / this.tileSize) >= tileX &&
+      Math.floor(bounds.top / this.tileSize) < tileY + height && Math.floor(bounds.bottom / this.tileSize) >= tileY;
+  }
+  
+  // Merges the 3x3 block with this tile at its top-left into a giant crop if every tile
+  // in it holds the same fully grown crop, the player isn't standing in it and the night's
+  // roll succeeds
+  private tryGrowGiantCrop(tileX: number, tileY: number): void {
+    const tile = this.getTileAt(tileX, tileY);
+    const crop = tile?.cropType ? cropRegistry.get(tile.cropType) : undefined;
+    if (!tile || !crop?.giant) return;
+    
+    const giant = crop.giant;
+    const size = TileMap.GIANT_CROP_SIZE;
+    for (let dy = 0; dy < size; dy++) {
+      for (let dx = 0; dx < size; dx++) {
+        const other = this.getTileAt(tileX + dx, tileY + dy);
+        if (!other || other.type !== TileType.PlantedDirt || other.cropType !== crop.id || (other.growth ?? 0) < 1 || other.pests) {
+          return;
+        }
+      }
+    }
+    
+    if (this.overlapsPlayer(tileX, tileY, size, size) || this.random.next() >= giant.chance) return;
+    
+    this.placeObject(tileX, tileY, size, size, (covered, isAnchor) => ({
+      ...this.getSoil(covered),
+      type: TileType.GiantCrop,
+      solid: true,
+      tilled: true,
+      cropType: crop.id,
+      giantHealth: isAnchor ? giant.health : undefined,
+    }));
+  }
+  
+  // One axe hit on a giant crop; once its health runs out it's felled and the soil underneath is left tilled
+  public chopGiantCrop(x: number, y: number): GiantCropChop | null {
+    const anchor = this.getObjectAnchor(Math.floor(x / this.tileSize), Math.floor(y / this.tileSize));
+    if (!anchor || anchor.tile.type !== TileType.GiantCrop || !anchor.tile.cropType) return null;
+    
+    const cropType = anchor.tile.cropType;
+    const centerX = (anchor.tileX + (anchor.tile.objectWidth ?? 1) / 2) * this.tileSize;
+    const centerY = (anchor.tileY + (anchor.tile.objectHeight ?? 1) / 2) * this.tileSize;
+    
+    const health = (anchor.tile.giantHealth ?? 1) - 1;
+    if (health > 0) {
+      anchor.tile.giantHealth = health;
+      this.markModified(anchor.tileX, anchor.tileY);
+      return { cropType, felled: false, centerX, centerY };
+    }
+    
+    this.removeObject(anchor.tileX, anchor.tileY, covered => ({
+      ...this.getSoil(covered),
+      type: TileType.TilledDirt,
+      solid: false,
+      tilled: true,
+      tilledTime: this.clock.now(),
+    }));
+    return { cropType, felled: true, centerX, centerY };
+  }
+  
+  // Sprays a patch of soil around the tile: infested crops in it are cured and pests stay
+  // away through the repellent's last night. Fails if the tile is already covered that long.
+  public applyRepellent(x: number, y: number, repellentId: string): boolean {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    const repellent = repellentRegistry.get(repellentId);
+    if (!tile || !repellent || !this.isSoil(tile)) return false;
+    
+    const until = this.dayCount + repellent.days;
+    if ((tile.repelledUntil ?? -1) >= until) return false;
+    
+    for (let dy = -repellent.range; dy <= repellent.range; dy++) {
+      for (let dx = -repellent.range; dx <= repellent.range; dx++) {
+        const covered = this.getTileAt(tileX + dx, tileY + dy);
+        if (covered && this.isSoil(covered)) {
+          covered.repelledUntil = Math.max(covered.repelledUntil ?? -1, until);
+          covered.pests = undefined;
+          this.markModified(tileX + dx, tileY + dy);
+        }
+      }
+    }
+    return true;
+  }
+  
+  // Whether pests are kept off the tile tonight
+  public isRepelled(tile: Tile): boolean {
+    return tile.repelledUntil !== undefined && tile.repelledUntil > this.dayCount;
+  }
+  
+  private isSoil(tile: Tile): boolean {
+    return tile.type === TileType.TilledDirt || tile.type === TileType.PlantedDirt;
+  }
+  
+  // Whether every tile of the block is open ground with nothing built on it
+  public canBuild(tileX: number, tileY: number, width: number, height: number): boolean {
+    for (let dy = 0; dy < height; dy++) {
+      for (let dx = 0; dx < width; dx++) {
+        const tile = this.getTileAt(tileX + dx, tileY + dy);
+        if (!tile || tile.solid || tile.anchorX !== undefined || (tile.type !== TileType.Grass && tile.type !== TileType.Dirt)) {
+          return false;
+        }
+      }
+    }
+    return true;
+  }
+  
+  // Puts up a greenhouse with its top-left at the tile, returning the tile of its door.
+  // The door leads nowhere until it's linked to the greenhouse's map.
+  public buildGreenhouse(tileX: number, tileY: number): { tileX: number, tileY: number } | null {
+    const width = TileMap.GREENHOUSE_WIDTH;
+    const height = TileMap.GREENHOUSE_HEIGHT;
+    if (!this.canBuild(tileX, tileY, width, height)) return null;
+    
+    this.placeObject(tileX, tileY, width, height, () => ({ type: TileType.Greenhouse, solid: true }));
+    return { tileX: tileX + Math.floor(width / 2), tileY: tileY + height - 1 };
+  }
+  
+  // Turns the tile into a door to another map, keeping it part of any object it belongs to
+  public linkDoor(tileX: number, tileY: number, target: DoorTarget): void {
+    const tile = this.getTileAt(tileX, tileY);
+    if (!tile) return;
+    
+    this.setTile(tileX, tileY, {
+      ...tile,
+      type: TileType.Door,
+      solid: false,
+      door: target.mapId,
+      doorX: target.tileX,
+      doorY: target.tileY,
+    });
+  }
+  
+  // Where the door at a world position leads, if there is one
+  public getDoor(x: number, y: number): DoorTarget | null {
+    const tile = this.getTile(x, y);
+    if (!tile || tile.type !== TileType.Door || !tile.door || tile.doorX === undefined || tile.doorY === undefined) {
+      return null;
+    }
+    return { mapId: tile.door, tileX: tile.doorX, tileY: tile.doorY };
+  }
+  
+  // Clears weeds back to tilled soil
+  public clearWeeds(x: number, y: number): boolean {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    
+    if (tile && tile.type === TileType.Weeds) {
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
+        type: TileType.TilledDirt,
+        solid: false,
+        tilled: true,
+        tilledTime: this.clock.now(),
+      });
+      return true;
+    }
+    
+    return false;
+  }
+  
+  // Clears a dead crop back to tilled soil
+  public clearDeadPlant(x: number, y: number): boolean {
+    const tileX = Math.floor(x / this.tileSize);
+    const tileY = Math.floor(y / this.tileSize);
+    const tile = this.getTileAt(tileX, tileY);
+    
+    if (tile && tile.type === TileType.DeadPlant) {
+      this.setTile(tileX, tileY, {
+        ...this.getSoil(tile),
+        type: TileType.TilledDirt,
+        solid: false,
+        tilled: true,
+        tilledTime: this.clock.now(),
+      });
+      return true;
+    }
+    
+    return false;
+  }
+  
+  // True once a tree falls, 'hit' for a blow it survives, 'stump' when a stump is cleared and
+  // false when there's nothing to chop
+  public chopTree(x: number, y: number): boolean | 'hit' | 'stump' {
     const tileX = Math.floor(x / this.tileSize);
     const tileY = Math.floor(y / this.tileSize);
     const tile = this.getTileAt(tileX, tileY);
@@ -275,92 +941,300 @@ export class TileMap {
       if (tile.treeHealth && tile.treeHealth > 1) {
         // Damage the tree
         tile.treeHealth--;
-        return false; // Tree not yet chopped down
+        this.markModified(tileX, tileY);
+        return 'hit'; // Tree not yet chopped down
       } else {
         // Tree is chopped down, convert to stump
         const treeVariant = tile.treeVariant || 1;
-        this.tiles[tileY][tileX] = {
+        this.setTile(tileX, tileY, {
           type: TileType.TreeStump,
           solid: false,
-          stumpTime: Date.now(),
+          stumpTime: this.clock.now(),
           originalTreeVariant: treeVariant
-        };
+        });
         return true; // Tree was chopped down
       }
     } else if (tile && tile.type === TileType.TreeStump) {
       // Chop the stump, convert to grass
-      this.tiles[tileY][tileX] = {
+      this.setTile(tileX, tileY, {
         type: TileType.Grass,
         solid: false
-      };
+      });
       return 'stump'; // Stump was removed
     }
     
     return false;
   }
   
-  public updateCrops(deltaTime: number): void {
-    const currentTime = Date.now();
+  // Only loaded chunks the player has changed are simulated; everything else either
+  // has nothing that changes over time or catches up when it is next loaded
+  public updateCrops(deltaTime: number, daysElapsed: number = 0): void {
+    this.dayCount += daysElapsed;
     
-    for (let y = 0; y < this.height; y++) {
-      for (let x = 0; x < this.width; x++) {
-        const tile = this.tiles[y][x];
+    // Copied, since sprinklers near the edge can load a neighbouring chunk mid-update
+    for (const chunk of Array.from(this.chunks.values())) {
+      if (chunk.modified) {
+        this.simulateChunk(chunk, deltaTime, daysElapsed);
+      }
+    }
+  }
+  
+  // Advances the chunk by deltaTime seconds ending at currentTime, during which daysElapsed
+  // days began, the last of them being `today`
+  private simulateChunk(chunk: Chunk, deltaTime: number, daysElapsed: number, currentTime: number = this.clock.now(), today: number = this.dayCount): void {
+    this.runSprinklers(chunk, currentTime, false);
+    
+    for (let y = 0; y < Chunk.SIZE; y++) {
+      for (let x = 0; x < Chunk.SIZE; x++) {
+        const tile = chunk.getTile(x, y);
+        const tileX = chunk.getOriginX() + x;
+        const tileY = chunk.getOriginY() + y;
+        
+        const crop = tile.cropType ? cropRegistry.get(tile.cropType) : undefined;
+        // Share of growth that still happens without water
+        const dryFactor = crop ? 1 - crop.waterNeed : 0;
+        
+        // Overnight growth: crops tended during the day grow a stage while the player sleeps
+        if (daysElapsed > 0 && (tile.type === TileType.TilledDirt || tile.type === TileType.PlantedDirt)) {
+          if (tile.type === TileType.PlantedDirt && tile.growth !== undefined && crop) {
+            // Crops can't survive into a season they don't grow in
+            if (!this.canGrow(crop, currentTime)) {
+              chunk.setTile(x, y, this.createDeadPlant(tile));
+              continue;
+            }
+            
+            const dailyGrowth = (tile.wateredToday ? TileMap.DAILY_GROWTH : (tile.wilted ? 0 : TileMap.DAILY_GROWTH * dryFactor)) * this.getGrowthMultiplier(tileX, tileY, tile);
+            const gained = Math.min(1 - tile.growth, dailyGrowth);
+            tile.growth += gained;
+            if (tile.wateredToday) {
+              tile.wetGrowth = (tile.wetGrowth ?? 0) + gained;
+            }
+          }
+          tile.wateredToday = false;
+        }
         
-        if (tile.type === TileType.PlantedDirt && tile.planted && tile.growth !== undefined) {
-          // Crops grow when watered
+        if (tile.type === TileType.PlantedDirt && tile.planted && tile.growth !== undefined && crop) {
+          const growthRate = this.getGrowthMultiplier(tileX, tileY, tile) / crop.growTime; // Growth per watered second
+          const stepStart = currentTime - deltaTime * 1000;
+          
+          // Only the part of this step before the water ran out counts as wet, and only the
+          // dry part before the crop wilted counts towards dry growth, so one long step
+          // grows (and wilts) a crop exactly as much as many short frames would
+          let wetSeconds = 0;
+          let dryFrom = tile.dryingSince ?? stepStart;
+          const waterDuration = this.getWaterDuration(tile);
           if (tile.watered) {
-            tile.growth = Math.min(1, tile.growth + deltaTime * 0.1); // Grow over ~10 seconds
+            const wetUntil = tile.lastWatered !== undefined ? tile.lastWatered + waterDuration : currentTime;
+            wetSeconds = Math.max(0, Math.min(deltaTime, (wetUntil - stepStart) / 1000));
+            dryFrom = wetUntil;
             
             // Dry out after some time
-            if (tile.lastWatered && currentTime - tile.lastWatered > 5000) {
+            if (tile.lastWatered !== undefined && currentTime - tile.lastWatered >= waterDuration) {
               tile.watered = false;
             }
           }
+          if (!tile.watered && tile.dryingSince === undefined) {
+            tile.dryingSince = dryFrom;
+          }
+          
+          // Drought-tolerant crops hold out longer before wilting and dying
+          const hardiness = 1 + (tile.traits?.drought ?? 0);
+          const wiltAt = dryFrom + crop.wiltTime * hardiness * 1000;
+          const dryGrowingSeconds = Math.max(0, (Math.min(currentTime, wiltAt) - Math.max(stepStart, dryFrom)) / 1000);
+          const wetGain = wetSeconds * growthRate;
+          const totalGain = wetGain + dryGrowingSeconds * dryFactor * growthRate;
+          const gained = Math.min(1 - tile.growth, totalGain);
+          tile.growth += gained;
+          if (totalGain > 0) {
+            tile.wetGrowth = (tile.wetGrowth ?? 0) + gained * (wetGain / totalGain);
+          }
+          
+          // Neglected crops wilt, then die
+          if (!tile.watered && currentTime >= dryFrom + crop.deathTime * hardiness * 1000) {
+            chunk.setTile(x, y, this.createDeadPlant(tile));
+          } else if (!tile.watered && currentTime >= wiltAt) {
+            tile.wilted = true;
+            tile.everWilted = true;
+          }
         } else if (tile.type === TileType.TilledDirt && !tile.planted) {
           // Revert tilled dirt to grass after 30 seconds if not planted
-          if (tile.tilledTime && currentTime - tile.tilledTime > 30000) {
-            this.tiles[y][x] = {
-              type: TileType.Grass,
+          if (tile.tilledTime !== undefined && currentTime - tile.tilledTime > TileMap.TILLED_DURATION) {
+            chunk.setTile(x, y, {
+              ...this.getSoil(tile),
+              type: this.getGround(),
               solid: false,
-            };
+            });
           }
-        } else if (tile.type === TileType.TreeStump && tile.stumpTime) {
+        } else if (tile.type === TileType.TreeStump && tile.stumpTime !== undefined) {
           // Regrow trees after 20 seconds
-          if (currentTime - tile.stumpTime > 20000) {
-            this.tiles[y][x] = {
+          if (currentTime - tile.stumpTime > TileMap.STUMP_REGROW_TIME) {
+            chunk.setTile(x, y, {
               type: TileType.Tree,
               solid: true,
               treeHealth: 3,
-              treeVariant: tile.originalTreeVariant || Math.floor(Math.random() * 4) + 1
-            };
+              treeVariant: tile.originalTreeVariant || this.random.nextInt(4) + 1
+            });
+          }
+        }
+      }
+    }
+    
+    if (daysElapsed > 0) {
+      // Weeds and pests get a turn for every night that passed
+      for (let night = today - daysElapsed + 1; night <= today; night++) {
+        this.runNeglect(chunk, night);
+      }
+      
+      // Fully grown blocks of the same crop can merge overnight
+      for (let y = 0; y < Chunk.SIZE; y++) {
+        for (let x = 0; x < Chunk.SIZE; x++) {
+          if (chunk.getTile(x, y).type === TileType.PlantedDirt) {
+            this.tryGrowGiantCrop(chunk.getOriginX() + x, chunk.getOriginY() + y);
           }
         }
       }
+      
+      // Morning soak, after overnight growth so it counts towards the new day
+      this.runSprinklers(chunk, currentTime, true);
     }
   }
   
-  public isSolid(x: number, y: number): boolean {
-    const tile = this.getTile(x, y);
-    return tile ? tile.solid : true;
+  // One night of neglect: weeds take over dead crops and unplanted soil and creep into
+  // neglected neighbours, while pests find unprotected crops (more easily next to weeds
+  // or other infested crops) and eat into the ones they already hold. Every roll is made
+  // against the tiles as they were at nightfall, so the order tiles are visited in
+  // doesn't matter.
+  private runNeglect(chunk: Chunk, night: number): void {
+    const overgrown: { tileX: number, tileY: number }[] = [];
+    const infested: { tileX: number, tileY: number }[] = [];
+    const eaten: { tileX: number, tileY: number }[] = [];
+    
+    for (let y = 0; y < Chunk.SIZE; y++) {
+      for (let x = 0; x < Chunk.SIZE; x++) {
+        const tile = chunk.getTile(x, y);
+        const tileX = chunk.getOriginX() + x;
+        const tileY = chunk.getOriginY() + y;
+        
+        if (tile.type === TileType.Weeds) {
+          for (const [dx, dy] of NEIGHBOUR_OFFSETS) {
+            const neighbour = this.getTileAt(tileX + dx, tileY + dy);
+            if (neighbour && this.isNeglected(neighbour) && this.random.chance(TileMap.WEED_SPREAD_CHANCE)) {
+              overgrown.push({ tileX: tileX + dx, tileY: tileY + dy });
+            }
+          }
+        } else if (tile.type === TileType.DeadPlant || (tile.type === TileType.TilledDirt && !tile.planted)) {
+          if (this.random.chance(TileMap.WEED_SPAWN_CHANCE)) {
+            overgrown.push({ tileX, tileY });
+          }
+        } else if (tile.type === TileType.PlantedDirt && tile.cropType) {
+          if (tile.pests) {
+            eaten.push({ tileX, tileY });
+          } else if (tile.repelledUntil === undefined || tile.repelledUntil < night) {
+            const chance = TileMap.PEST_CHANCE +
+              TileMap.PEST_WEED_CHANCE * this.countNeighbours(tileX, tileY, n => n.type === TileType.Weeds) +
+              TileMap.PEST_SPREAD_CHANCE * this.countNeighbours(tileX, tileY, n => n.type === TileType.PlantedDirt && !!n.pests);
+            if (this.random.chance(chance)) {
+              infested.push({ tileX, tileY });
+            }
+          }
+        }
+      }
+    }
+    
+    for (const { tileX, tileY } of eaten) {
+      const tile = this.getTileAt(tileX, tileY);
+      if (!tile || !tile.pests) continue;
+      
+      tile.pests++;
+      tile.growth = Math.max(0, (tile.growth ?? 0) - TileMap.PEST_DAMAGE);
+      if (tile.pests > TileMap.PEST_DEATH_NIGHTS) {
+        this.setTile(tileX, tileY, this.createDeadPlant(tile));
+      }
+    }
+    
+    for (const { tileX, tileY } of infested) {
+      const tile = this.getTileAt(tileX, tileY);
+      if (tile && tile.type === TileType.PlantedDirt) {
+        tile.pests = 1;
+      }
+    }
+    
+    for (const { tileX, tileY } of overgrown) {
+      const tile = this.getTileAt(tileX, tileY);
+      if (tile && this.isNeglected(tile)) {
+        this.setTile(tileX, tileY, {
+          ...this.getSoil(tile),
+          type: TileType.Weeds,
+          solid: false,
+          tilled: true,
+        });
+      }
+    }
   }
   
-  public getWidth(): number {
-    return this.width;
+  // Soil weeds can creep into: dead crops, unplanted soil and wilted crops
+  private isNeglected(tile: Tile): boolean {
+    return tile.type === TileType.DeadPlant ||
+      (tile.type === TileType.TilledDirt && !tile.planted) ||
+      (tile.type === TileType.PlantedDirt && !!tile.wilted);
   }
   
-  public getHeight(): number {
-    return this.height;
+  private createDeadPlant(tile: Tile): Tile {
+    return {
+      ...this.getSoil(tile),
+      type: TileType.DeadPlant,
+      solid: false,
+      tilled: true,
+      cropType: tile.cropType,
+    };
   }
   
-  public getTileSize(): number {
-    return this.tileSize;
+  public getSaveData(): TileMapSaveData {
+    const chunks = Array.from(this.unloadedChunks.values()).map(data => ({
+      ...data,
+      tiles: data.tiles.map(row => row.map(tile => ({ ...tile }))),
+    }));
+    for (const chunk of this.chunks.values()) {
+      if (chunk.modified) {
+        chunks.push(chunk.getSaveData(this.clock.now(), this.dayCount));
+      }
+    }
+    
+    return {
+      seed: this.seed,
+      randomState: this.random.getState(),
+      tileSize: this.tileSize,
+      dayCount: this.dayCount,
+      chunks,
+    };
   }
   
-  public getWorldWidth(): number {
-    return this.width * this.tileSize;
+  // Everything starts unloaded; chunks come back (and catch up) as they are streamed in
+  public loadSaveData(data: TileMapSaveData): void {
+    this.seed = data.seed;
+    this.random.setState(data.randomState);
+    this.tileSize = data.tileSize;
+    this.dayCount = data.dayCount;
+    this.chunks.clear();
+    this.unloadedChunks.clear();
+    for (const chunk of data.chunks) {
+      this.unloadedChunks.set(Chunk.key(chunk.chunkX, chunk.chunkY), {
+        ...chunk,
+        tiles: chunk.tiles.map(row => row.map(tile => ({ ...tile }))),
+      });
+    }
+  }
+  
+  public isSolid(x: number, y: number): boolean {
+    const tile = this.getTile(x, y);
+    return tile ? tile.solid : true;
+  }
+  
+  public getSeed(): number {
+    return this.seed;
   }
   
-  public getWorldHeight(): number {
-    return this.height * this.tileSize;
+  public getTileSize(): number {
+    return this.tileSize;
   }
 }
\ No newline at end of file
@@ -0,0 +1,76 @@
+import { Tile } from '../TileMap';
+import { Random } from '../../utils/random';
+
+export enum Biome {
+  Meadow = 0,
+  Forest = 1,
+  Lake = 2,
+  Rocky = 3,
+}
+
+// A region of the world being generated, plus per-tile layers that earlier
+// passes leave behind for later ones (e.g. elevation feeding biome selection)
+export class GenerationContext {
+  public readonly seed: number;
+  public readonly originX: number; // World tile coordinates of the region's top-left corner
+  public readonly originY: number;
+  public readonly width: number;
+  public readonly height: number;
+  public readonly random: Random;
+  
+  private tiles: Tile[][];
+  private layers: Map<string, Float32Array> = new Map();
+  
+  constructor(seed: number, originX: number, originY: number, tiles: Tile[][]) {
+    this.seed = seed;
+    this.originX = originX;
+    this.originY = originY;
+    this.height = tiles.length;
+    this.width = tiles.length > 0 ? tiles[0].length : 0;
+    this.tiles = tiles;
+    // Each region rolls its own numbers, so a chunk generates the same way whatever order chunks load in
+    this.random = new Random((seed ^ Math.imul(originX, 73856093) ^ Math.imul(originY, 19349663)) >>> 0);
+  }
+  
+  // World tile coordinates; null outside the region
+  public getTile(x: number, y: number): Tile | null {
+    const localX = x - this.originX;
+    const localY = y - this.originY;
+    if (localX < 0 || localX >= this.width || localY < 0 || localY >= this.height) {
+      return null;
+    }
+    return this.tiles[localY][localX];
+  }
+  
+  public setTile(x: number, y: number, tile: Tile): void {
+    const localX = x - this.originX;
+    const localY = y - this.originY;
+    if (localX >= 0 && localX < this.width && localY >= 0 && localY < this.height) {
+      this.tiles[localY][localX] = tile;
+    }
+  }
+  
+  // Per-tile values shared between passes, created zeroed on first use
+  public getLayer(name: string): Float32Array {
+    let layer = this.layers.get(name);
+    if (!layer) {
+      layer = new Float32Array(this.width * this.height);
+      this.layers.set(name, layer);
+    }
+    return layer;
+  }
+  
+  public getLayerValue(name: string, x: number, y: number): number {
+    return this.getLayer(name)[(y - this.originY) * this.width + (x - this.originX)];
+  }
+  
+  public setLayerValue(name: string, x: number, y: number, value: number): void {
+    this.getLayer(name)[(y - this.originY) * this.width + (x - this.originX)] = value;
+  }
+}
+
+// One step of world generation. Passes run in order over the same context.
+export interface GenerationPass {
+  name: string;
+  apply(context: GenerationContext): void;
+}
\ No newline at end of file
@@ -0,0 +1,35 @@
+import { TileType } from '../TileMap';
+import { GenerationPass, GenerationContext } from './GenerationPass';
+
+// Floor size of the greenhouse interior and the tile of its exit door, in the middle of the bottom wall
+export const GREENHOUSE_ROOM = { width: 12, height: 9, exitX: 6, exitY: 9 };
+
+// A single walled room: open floor from tile (0, 0) to (width - 1, height - 1) and
+// solid wall everywhere else, so an indoor map never runs into open terrain
+export class RoomPass implements GenerationPass {
+  public name = 'room';
+  private width: number;
+  private height: number;
+  private floor: TileType;
+  
+  constructor(width: number, height: number, floor: TileType) {
+    this.width = width;
+    this.height = height;
+    this.floor = floor;
+  }
+  
+  public apply(context: GenerationContext): void {
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const inside = x >= 0 && x < this.width && y >= 0 && y < this.height;
+        context.setTile(x, y, inside ? { type: this.floor, solid: false } : { type: TileType.Wall, solid: true });
+      }
+    }
+  }
+}
+
+export function createGreenhousePasses(): GenerationPass[] {
+  return [
+    new RoomPass(GREENHOUSE_ROOM.width, GREENHOUSE_ROOM.height, TileType.Dirt),
+  ];
+}
\ No newline at end of file
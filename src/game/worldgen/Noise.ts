@@ -0,0 +1,59 @@
+// Seeded 2D value noise. Lattice values come from an integer hash rather than a
+// permutation table, so any coordinate can be sampled without precomputation.
+export class ValueNoise {
+  private seed: number;
+  
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+  }
+  
+  // Smoothly interpolated noise in [0, 1)
+  public sample(x: number, y: number): number {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const tx = this.smooth(x - x0);
+    const ty = this.smooth(y - y0);
+    
+    const a = this.hash(x0, y0);
+    const b = this.hash(x0 + 1, y0);
+    const c = this.hash(x0, y0 + 1);
+    const d = this.hash(x0 + 1, y0 + 1);
+    
+    const top = a + (b - a) * tx;
+    const bottom = c + (d - c) * tx;
+    return top + (bottom - top) * ty;
+  }
+  
+  // Fractal noise: several octaves layered for natural-looking variation, in [0, 1)
+  public fbm(x: number, y: number, octaves: number = 4, lacunarity: number = 2, gain: number = 0.5): number {
+    let amplitude = 1;
+    let frequency = 1;
+    let total = 0;
+    let max = 0;
+    
+    for (let i = 0; i < octaves; i++) {
+      total += this.sample(x * frequency + i * 17.3, y * frequency - i * 9.1) * amplitude;
+      max += amplitude;
+      amplitude *= gain;
+      frequency *= lacunarity;
+    }
+    
+    return total / max;
+  }
+  
+  // Close to 1 along thin winding lines where the noise crosses its midpoint
+  public ridged(x: number, y: number, octaves: number = 3): number {
+    return 1 - Math.abs(this.fbm(x, y, octaves) * 2 - 1);
+  }
+  
+  private hash(x: number, y: number): number {
+    let h = Math.imul(x, 374761393) ^ Math.imul(y, 668265263) ^ Math.imul(this.seed, 0x27D4EB2D);
+    h = Math.imul(h ^ (h >>> 13), 1274126177);
+    h ^= h >>> 16;
+    return (h >>> 0) / 4294967296;
+  }
+  
+  private smooth(t: number): number {
+    return t * t * (3 - 2 * t);
+  }
+}
\ No newline at end of file
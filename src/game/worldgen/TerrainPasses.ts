@@ -0,0 +1,219 @@
+import { TileType } from '../TileMap';
+import { ValueNoise } from './Noise';
+import { GenerationPass, GenerationContext, Biome } from './GenerationPass';
+
+// Elevation and moisture fields that the other passes read from
+export class ClimatePass implements GenerationPass {
+  public name = 'climate';
+  
+  public apply(context: GenerationContext): void {
+    const elevationNoise = new ValueNoise(context.seed ^ 0xE1E7A7E);
+    const moistureNoise = new ValueNoise(context.seed ^ 0x3015707E);
+    
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        context.setLayerValue('elevation', x, y, elevationNoise.fbm(x / 28, y / 28, 4));
+        context.setLayerValue('moisture', x, y, moistureNoise.fbm(x / 36, y / 36, 3));
+      }
+    }
+  }
+}
+
+// Picks a biome per tile from the climate fields
+export class BiomePass implements GenerationPass {
+  public name = 'biome';
+  
+  public apply(context: GenerationContext): void {
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const elevation = context.getLayerValue('elevation', x, y);
+        const moisture = context.getLayerValue('moisture', x, y);
+        
+        let biome = Biome.Meadow;
+        if (elevation < 0.3) {
+          biome = Biome.Lake;
+        } else if (elevation > 0.68) {
+          biome = Biome.Rocky;
+        } else if (moisture > 0.52) {
+          biome = Biome.Forest;
+        }
+        
+        context.setLayerValue('biome', x, y, biome);
+      }
+    }
+  }
+}
+
+// Fills low-lying basins with water, with a dirt shore around them
+export class LakePass implements GenerationPass {
+  public name = 'lakes';
+  
+  public apply(context: GenerationContext): void {
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const elevation = context.getLayerValue('elevation', x, y);
+        if (elevation < 0.3) {
+          context.setTile(x, y, { type: TileType.Water, solid: true });
+        } else if (elevation < 0.315) {
+          context.setTile(x, y, { type: TileType.Dirt, solid: false });
+        }
+      }
+    }
+  }
+}
+
+// Winding rivers trace the contour where a noise field crosses its midpoint.
+// Dividing by the slope turns that into a distance in tiles, so channels keep
+// an even width instead of ballooning where the field is flat. Thinner
+// tributaries come from a higher-frequency field and only run through wetter ground.
+export class RiverPass implements GenerationPass {
+  public name = 'rivers';
+  
+  private static readonly RIVER_HALF_WIDTH = 1.3; // Tiles either side of the centre line
+  private static readonly TRIBUTARY_HALF_WIDTH = 0.6;
+  
+  public apply(context: GenerationContext): void {
+    const riverNoise = new ValueNoise(context.seed ^ 0x5A1D5EED);
+    const tributaryNoise = new ValueNoise(context.seed ^ 0x7B1B0A5);
+    
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const elevation = context.getLayerValue('elevation', x, y);
+        const moisture = context.getLayerValue('moisture', x, y);
+        
+        // Rivers don't climb into rocky highlands
+        if (elevation > 0.66) continue;
+        
+        const isRiver = this.distanceToChannel(riverNoise, x, y, 40) < RiverPass.RIVER_HALF_WIDTH;
+        const isTributary = moisture > 0.5 &&
+          this.distanceToChannel(tributaryNoise, x, y, 18) < RiverPass.TRIBUTARY_HALF_WIDTH;
+        
+        if (isRiver || isTributary) {
+          context.setTile(x, y, { type: TileType.Water, solid: true });
+          context.setLayerValue('river', x, y, 1);
+        }
+      }
+    }
+  }
+  
+  // Approximate distance in tiles from (x, y) to the noise field's midpoint contour
+  private distanceToChannel(noise: ValueNoise, x: number, y: number, scale: number): number {
+    const value = noise.fbm(x / scale, y / scale, 2);
+    const dx = noise.fbm((x + 1) / scale, y / scale, 2) - noise.fbm((x - 1) / scale, y / scale, 2);
+    const dy = noise.fbm(x / scale, (y + 1) / scale, 2) - noise.fbm(x / scale, (y - 1) / scale, 2);
+    const slope = Math.sqrt(dx * dx + dy * dy) / 2;
+    return Math.abs(value - 0.5) / Math.max(slope, 0.002);
+  }
+}
+
+// Stone outcrops in the highlands with bare dirt between them
+export class RockPass implements GenerationPass {
+  public name = 'rocks';
+  
+  public apply(context: GenerationContext): void {
+    const rockNoise = new ValueNoise(context.seed ^ 0x0B0A1DE5);
+    
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const tile = context.getTile(x, y);
+        if (!tile || tile.type !== TileType.Grass) continue;
+        
+        const biome = context.getLayerValue('biome', x, y);
+        const clustering = rockNoise.fbm(x / 5, y / 5, 2);
+        
+        if (biome === Biome.Rocky) {
+          if (clustering > 0.58) {
+            context.setTile(x, y, { type: TileType.Stone, solid: true });
+          } else if (clustering > 0.5) {
+            context.setTile(x, y, { type: TileType.Dirt, solid: false });
+          }
+        } else if (context.random.chance(0.01)) {
+          // The odd boulder elsewhere
+          context.setTile(x, y, { type: TileType.Stone, solid: true });
+        }
+      }
+    }
+  }
+}
+
+// Bare dirt patches in the drier parts of meadows
+export class DirtPatchPass implements GenerationPass {
+  public name = 'dirtPatches';
+  
+  public apply(context: GenerationContext): void {
+    const patchNoise = new ValueNoise(context.seed ^ 0xD1277);
+    
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const tile = context.getTile(x, y);
+        if (!tile || tile.type !== TileType.Grass) continue;
+        
+        const moisture = context.getLayerValue('moisture', x, y);
+        if (moisture < 0.45 && patchNoise.fbm(x / 6, y / 6, 2) > 0.72) {
+          context.setTile(x, y, { type: TileType.Dirt, solid: false });
+        }
+      }
+    }
+  }
+}
+
+// Dense woods in forest biomes, scattered trees elsewhere
+export class ForestPass implements GenerationPass {
+  public name = 'forests';
+  
+  public apply(context: GenerationContext): void {
+    for (let y = context.originY; y < context.originY + context.height; y++) {
+      for (let x = context.originX; x < context.originX + context.width; x++) {
+        const tile = context.getTile(x, y);
+        if (!tile || tile.type !== TileType.Grass) continue;
+        
+        const biome = context.getLayerValue('biome', x, y);
+        const moisture = context.getLayerValue('moisture', x, y);
+        
+        let density = 0.03;
+        if (biome === Biome.Forest) {
+          density = 0.25 + (moisture - 0.52) * 2;
+        } else if (biome === Biome.Rocky) {
+          density = 0.01;
+        }
+        
+        if (!context.random.chance(density)) continue;
+        
+        // Outside forests, keep trees apart so meadows stay open
+        if (biome !== Biome.Forest && this.hasNearbyTree(context, x, y)) continue;
+        
+        context.setTile(x, y, {
+          type: TileType.Tree,
+          solid: true,
+          treeHealth: 3, // Takes 3 hits to chop down
+          treeVariant: context.random.nextInt(4) + 1, // Random variant 1-4
+        });
+      }
+    }
+  }
+  
+  private hasNearbyTree(context: GenerationContext, x: number, y: number): boolean {
+    for (let dy = -1; dy <= 1; dy++) {
+      for (let dx = -1; dx <= 1; dx++) {
+        if (context.getTile(x + dx, y + dy)?.type === TileType.Tree) {
+          return true;
+        }
+      }
+    }
+    return false;
+  }
+}
+
+// Default pipeline. Order matters: climate and biomes first, then water, then
+// features that only grow on the grass left over.
+export function createDefaultTerrainPasses(): GenerationPass[] {
+  return [
+    new ClimatePass(),
+    new BiomePass(),
+    new LakePass(),
+    new RiverPass(),
+    new RockPass(),
+    new DirtPatchPass(),
+    new ForestPass(),
+  ];
+}
\ No newline at end of file
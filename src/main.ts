@@ -6,14 +6,21 @@ const app = document.getElementById('app')!;
 app.innerHTML = `
   <canvas id="gameCanvas"></canvas>
   <div id="gameInfo">
+    <div>Date: <span id="date">Spring 1, Year 1</span></div>
+    <div>Time: <span id="time">6:00 AM</span></div>
     <div>FPS: <span id="fps">0</span></div>
     <div>Position: <span id="position">0, 0</span></div>
+    <div>Speed: <span id="clockStatus">1x</span></div>
+    <div>Seed: <span id="seed"></span></div>
     <div>Soundtrack: <span id="soundtrack">Loading...</span></div>
     <div class="volume-control">
       <label for="musicVolume">Music Volume: </label>
       <input type="range" id="musicVolume" min="0" max="100" value="50" />
       <span id="volumeValue">50%</span>
     </div>
+    <div class="save-controls">
+      <button id="savesButton">Saved Farms</button>
+    </div>
   </div>
   <div id="inventory">
     <div id="inventorySlots"></div>
@@ -0,0 +1,58 @@
+// Small seedable PRNG (mulberry32) so worlds can be reproduced from a seed
+export class Random {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  // Float in [0, 1)
+  next(): number {
+    this.state = (this.state + 0x6D2B79F5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  // Integer in [0, max)
+  nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  // Float in [min, max)
+  range(min: number, max: number): number {
+    return min + this.next() * (max - min);
+  }
+
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  // Numeric seeds are used as-is, anything else is hashed (FNV-1a)
+  static seedFromString(text: string): number {
+    const trimmed = text.trim();
+    if (/^\d+$/.test(trimmed)) {
+      return Number(trimmed) >>> 0;
+    }
+
+    let hash = 0x811C9DC5;
+    for (let i = 0; i < trimmed.length; i++) {
+      hash ^= trimmed.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+
+  static randomSeed(): number {
+    return Math.floor(Math.random() * 4294967296) >>> 0;
+  }
+}
\ No newline at end of file